@@ -1,96 +1,116 @@
 import React, { useState, useEffect, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
+import {
+  createClient,
+  createLocalId,
+  defineCollection,
+  isLocalId,
+  runOptimistic,
+  s,
+  type ChangeEvent,
+  type Collection,
+  type CollectionRecord,
+  type DataRecord,
+  type RecordChanges,
+  type Where,
+} from 'nanobase-client';
 
 // API設定
-const API_CONFIG = {
-  easyauthUrl: import.meta.env.VITE_EASYAUTH_URL || 'http://localhost:3201',
-  pocketdataUrl: import.meta.env.VITE_POCKETDATA_URL || 'http://localhost:3202',
-  noticoUrl: import.meta.env.VITE_NOTICO_URL || 'http://localhost:3203',
-  monitorUrl: import.meta.env.VITE_MONITOR_URL || 'http://localhost:3204',
+const { auth, data, monitor } = createClient({
   projectId: import.meta.env.VITE_PROJECT_ID || 'chat-app',
-};
+  // オフライン中の変更は端末に保存して、再接続時に送信する
+  offline: true,
+  urls: {
+    easyauth: import.meta.env.VITE_EASYAUTH_URL,
+    pocketdata: import.meta.env.VITE_POCKETDATA_URL,
+    notico: import.meta.env.VITE_NOTICO_URL,
+    monitor: import.meta.env.VITE_MONITOR_URL,
+  },
+});
 
 // ==========================================
-// API クライアント
+// コレクション定義
 // ==========================================
-const TOKEN_KEY = 'nanobase_token';
-
-async function apiFetch<T>(url: string, options: RequestInit = {}): Promise<{ success: boolean; data?: T; error?: { message: string } }> {
-  const token = localStorage.getItem(TOKEN_KEY);
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'X-Project-Id': API_CONFIG.projectId,
-    ...(options.headers as Record<string, string>),
-  };
-  if (token) headers['Authorization'] = `Bearer ${token}`;
+const messagesCollection = defineCollection('messages', s.object({
+  content: s.string(),
+  userEmail: s.string(),
+  roomId: s.string(),
+  createdAt: s.string(),
+  // 編集したら時刻を残して「編集済み」と表示する
+  editedAt: s.optional(s.string()),
+  // スレッドへの返信なら、返信先（スレッドの最初のメッセージ）のid
+  parentId: s.optional(s.string()),
+  // 返信があるメッセージは消すとスレッドが辿れなくなるので、本文だけ消して残す
+  deleted: s.optional(s.boolean()),
+}));
 
-  const response = await fetch(url, { ...options, headers });
-  return response.json();
-}
+type Message = CollectionRecord<typeof messagesCollection>;
 
-// Auth API
-const auth = {
-  async signup(email: string, password: string) {
-    const result = await apiFetch<{ token: string; user: { id: string; email: string } }>(
-      `${API_CONFIG.easyauthUrl}/api/v1/auth/signup-email`,
-      { method: 'POST', body: JSON.stringify({ email, password }) }
-    );
-    if (result.success && result.data) localStorage.setItem(TOKEN_KEY, result.data.token);
-    return result;
-  },
-  async login(email: string, password: string) {
-    const result = await apiFetch<{ token: string; user: { id: string; email: string } }>(
-      `${API_CONFIG.easyauthUrl}/api/v1/auth/login-email`,
-      { method: 'POST', body: JSON.stringify({ email, password }) }
-    );
-    if (result.success && result.data) localStorage.setItem(TOKEN_KEY, result.data.token);
-    return result;
-  },
-  async me() {
-    return apiFetch<{ id: string; email: string }>(`${API_CONFIG.easyauthUrl}/api/v1/auth/me`);
-  },
-  async logout() {
-    localStorage.removeItem(TOKEN_KEY);
-    await apiFetch(`${API_CONFIG.easyauthUrl}/api/v1/auth/logout`, { method: 'POST' });
-  },
-  isLoggedIn() {
-    return !!localStorage.getItem(TOKEN_KEY);
-  },
-};
+// メッセージは作成者しか変更できないため、リアクションは1人1件ずつ別のレコードにする
+const reactionsCollection = defineCollection('reactions', s.object({
+  messageId: s.string(),
+  roomId: s.string(),
+  emoji: s.string(),
+  userEmail: s.string(),
+  createdAt: s.string(),
+}));
 
-// Data API
-const data = {
-  async list(collection: string) {
-    return apiFetch<Array<{ id: string; data: Record<string, unknown> }>>(
-      `${API_CONFIG.pocketdataUrl}/api/v1/data/${collection}`
-    );
-  },
-  async create(collection: string, record: Record<string, unknown>) {
-    return apiFetch<{ id: string; data: Record<string, unknown> }>(`${API_CONFIG.pocketdataUrl}/api/v1/data/${collection}`, {
-      method: 'POST',
-      body: JSON.stringify(record),
-    });
-  },
-  async delete(collection: string, id: string) {
-    return apiFetch(`${API_CONFIG.pocketdataUrl}/api/v1/data/${collection}/${id}`, {
-      method: 'DELETE',
-    });
-  },
-};
+type Reaction = CollectionRecord<typeof reactionsCollection>;
 
-// Monitor API
-function trackEvent(name: string, properties?: Record<string, unknown>) {
-  apiFetch(`${API_CONFIG.monitorUrl}/api/v1/log/event`, {
-    method: 'POST',
-    body: JSON.stringify({ name, properties }),
-  }).catch(console.error);
-}
+const REACTION_EMOJIS = ['👍', '❤️', '😂', '🎉', '😮', '😢'];
+
+// 在室状況と既読位置は、ユーザー×ルームごとに1件ずつ自分のレコードを持つ
+const presenceCollection = defineCollection('presence', s.object({
+  userEmail: s.string(),
+  roomId: s.string(),
+  // ハートビートのたびに更新する
+  lastSeenAt: s.string(),
+  // 入力中なら最後に入力した時刻
+  typingAt: s.optional(s.string()),
+  // ルームを離れた時刻（次のハートビートで消える）
+  leftAt: s.optional(s.string()),
+}));
+
+type Presence = CollectionRecord<typeof presenceCollection>;
+
+const readMarkersCollection = defineCollection('read_markers', s.object({
+  userEmail: s.string(),
+  roomId: s.string(),
+  // この時刻までに作成されたメッセージを既読とする
+  lastReadAt: s.string(),
+}));
+
+type ReadMarker = CollectionRecord<typeof readMarkersCollection>;
+
+const HEARTBEAT_INTERVAL = 20 * 1000;
+// ハートビートが途切れてからオフライン扱いにするまでの時間
+const PRESENCE_TIMEOUT = 60 * 1000;
+const TYPING_TIMEOUT = 5 * 1000;
+// 入力中の通知はこの間隔より頻繁には送らない
+const TYPING_THROTTLE = 3 * 1000;
+const UNREAD_LIMIT = 100;
+
+const roomsCollection = defineCollection('rooms', s.object({
+  name: s.string(),
+  visibility: s.literal('public', 'private'),
+  // プライベートルームはここに含まれるユーザーだけが閲覧できる（オーナーも含む）
+  memberEmails: s.array(s.string()),
+  createdAt: s.string(),
+}));
+
+type Room = CollectionRecord<typeof roomsCollection>;
+
+// 既存メッセージとの互換のため、General は常に存在する組み込みルームとして扱う
+const GENERAL_ROOM: Room = {
+  id: 'general',
+  data: { name: 'General', visibility: 'public', memberEmails: [], createdAt: '' },
+};
 
 // ==========================================
 // スタイル
 // ==========================================
 const styles = {
-  container: { maxWidth: '800px', margin: '0 auto', padding: '20px', height: '100vh', display: 'flex', flexDirection: 'column' as const },
+  container: { maxWidth: '1000px', margin: '0 auto', padding: '20px', height: '100vh', display: 'flex', flexDirection: 'column' as const },
   header: { textAlign: 'center' as const, marginBottom: '20px' },
   card: { background: 'white', padding: '20px', borderRadius: '8px', marginBottom: '20px', boxShadow: '0 2px 4px rgba(0,0,0,0.1)' },
   form: { display: 'flex', flexDirection: 'column' as const, gap: '10px' },
@@ -108,18 +128,35 @@ const styles = {
   messageInput: { flex: 1, padding: '10px 15px', border: '1px solid #ddd', borderRadius: '20px', fontSize: '16px' },
   sendButton: { padding: '10px 20px', background: '#0066cc', color: 'white', border: 'none', borderRadius: '20px', cursor: 'pointer' },
   error: { color: 'red', marginBottom: '10px' },
+  toast: { position: 'fixed' as const, bottom: '20px', left: '50%', transform: 'translateX(-50%)', background: '#dc3545', color: 'white', padding: '10px 20px', borderRadius: '4px', boxShadow: '0 2px 8px rgba(0,0,0,0.2)', cursor: 'pointer', zIndex: 1000 },
+  syncStatus: { fontSize: '12px', color: '#666', marginTop: '8px' },
   roomInfo: { padding: '15px', borderBottom: '1px solid #eee', background: '#f8f9fa' },
+  layout: { flex: 1, display: 'flex', gap: '20px', minHeight: 0 },
+  sidebar: { width: '220px', display: 'flex', flexDirection: 'column' as const, background: 'white', borderRadius: '8px', boxShadow: '0 2px 4px rgba(0,0,0,0.1)', overflow: 'auto' },
+  roomItem: { display: 'block', width: '100%', padding: '10px 15px', border: 'none', background: 'transparent', textAlign: 'left' as const, cursor: 'pointer', fontSize: '14px' },
+  roomItemActive: { background: '#e8f4ff', fontWeight: 'bold' },
+  sidebarForm: { display: 'flex', flexDirection: 'column' as const, gap: '8px', padding: '15px', borderTop: '1px solid #eee', marginTop: 'auto' },
+  smallInput: { padding: '6px 10px', border: '1px solid #ddd', borderRadius: '4px', fontSize: '14px' },
+  smallButton: { padding: '6px 12px', background: '#0066cc', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '14px' },
+  chatBody: { flex: 1, display: 'flex', minHeight: 0 },
+  thread: { width: '320px', display: 'flex', flexDirection: 'column' as const, borderLeft: '1px solid #eee' },
+  threadHeader: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '10px 15px', borderBottom: '1px solid #eee', fontWeight: 'bold' },
+  messageDeleted: { fontStyle: 'italic', color: '#999', background: 'transparent', border: '1px dashed #ddd' },
+  messageActions: { display: 'flex', gap: '8px', fontSize: '12px', marginTop: '4px', flexWrap: 'wrap' as const },
+  messageAction: { padding: 0, border: 'none', background: 'transparent', color: '#0066cc', cursor: 'pointer', fontSize: '12px' },
+  reactions: { display: 'flex', gap: '4px', flexWrap: 'wrap' as const, marginTop: '4px' },
+  reaction: { padding: '2px 8px', border: '1px solid #ddd', borderRadius: '12px', background: 'white', cursor: 'pointer', fontSize: '13px' },
+  reactionMine: { borderColor: '#0066cc', background: '#e8f4ff' },
+  onlineUsers: { fontSize: '12px', color: '#666', marginTop: '4px' },
+  onlineDot: { color: '#28a745', marginRight: '4px' },
+  typing: { fontSize: '12px', color: '#666', padding: '0 20px', height: '18px' },
+  unreadBadge: { float: 'right' as const, minWidth: '20px', padding: '0 6px', borderRadius: '10px', background: '#dc3545', color: 'white', fontSize: '12px', textAlign: 'center' as const },
 };
 
 // ==========================================
 // コンポーネント
 // ==========================================
-interface Message {
-  id: string;
-  data: { content: string; userId: string; userEmail: string; roomId: string; createdAt: string };
-}
-
-function AuthForm({ onLogin }: { onLogin: () => void }) {
+function AuthForm({ onLogin, notice }: { onLogin: () => void; notice?: string }) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isSignup, setIsSignup] = useState(false);
@@ -132,7 +169,7 @@ function AuthForm({ onLogin }: { onLogin: () => void }) {
     try {
       const result = isSignup ? await auth.signup(email, password) : await auth.login(email, password);
       if (result.success) {
-        trackEvent(isSignup ? 'user_signup' : 'user_login', { email });
+        monitor.logEvent(isSignup ? 'user_signup' : 'user_login', { email });
         onLogin();
       } else {
         setError(result.error?.message || 'エラーが発生しました');
@@ -145,6 +182,7 @@ function AuthForm({ onLogin }: { onLogin: () => void }) {
   return (
     <div style={styles.card}>
       <h2>{isSignup ? '新規登録' : 'ログイン'}</h2>
+      {notice && !error && <p style={styles.error}>{notice}</p>}
       {error && <p style={styles.error}>{error}</p>}
       <form onSubmit={handleSubmit} style={styles.form}>
         <input type="email" placeholder="メールアドレス" value={email} onChange={e => setEmail(e.target.value)} style={styles.input} required />
@@ -160,108 +198,931 @@ function AuthForm({ onLogin }: { onLogin: () => void }) {
   );
 }
 
-function ChatRoom({ user }: { user: { id: string; email: string } }) {
+const HISTORY_LIMIT = 100;
+
+// 変更イベントを一覧に反映する（同じidは上書きして重複させない）
+function applyChange<T>(records: DataRecord<T>[], event: ChangeEvent<T>): DataRecord<T>[] {
+  if (event.type === 'delete') return records.filter(r => r.id !== event.id);
+  const { record } = event;
+  if (records.some(r => r.id === record.id)) {
+    return records.map(r => (r.id === record.id ? record : r));
+  }
+  return [...records, record];
+}
+
+// 仮IDのレコードをサーバーのレコードに置き換える（購読で先に届いていたら重複させない）
+function replaceLocal<T>(records: DataRecord<T>[], localId: string, record: DataRecord<T>): DataRecord<T>[] {
+  return records.filter(r => r.id !== record.id).map(r => (r.id === localId ? record : r));
+}
+
+const byCreatedAt = (a: Message, b: Message) => a.data.createdAt.localeCompare(b.data.createdAt);
+
+// 絵文字ごとの件数（よく使う絵文字を先に並べる）
+function summarizeReactions(reactions: Reaction[], userId: string) {
+  const summary = new Map<string, { emoji: string; count: number; mine: boolean }>();
+  for (const emoji of REACTION_EMOJIS) summary.set(emoji, { emoji, count: 0, mine: false });
+  for (const reaction of reactions) {
+    const entry = summary.get(reaction.data.emoji) || { emoji: reaction.data.emoji, count: 0, mine: false };
+    entry.count += 1;
+    if (reaction.userId === userId) entry.mine = true;
+    summary.set(entry.emoji, entry);
+  }
+  return [...summary.values()].filter(entry => entry.count > 0);
+}
+
+const displayName = (email: string) => email.split('@')[0];
+
+const formatTime = (dateStr: string) => {
+  const date = new Date(dateStr);
+  return date.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' });
+};
+
+function ReactionBar({ reactions, userId, onToggle }: { reactions: Reaction[]; userId: string; onToggle: (emoji: string) => void }) {
+  const [picking, setPicking] = useState(false);
+  const summary = summarizeReactions(reactions, userId);
+
+  return (
+    <div style={styles.reactions}>
+      {summary.map(({ emoji, count, mine }) => (
+        <button key={emoji} onClick={() => onToggle(emoji)} style={{ ...styles.reaction, ...(mine ? styles.reactionMine : {}) }} title={mine ? 'リアクションを取り消す' : undefined}>
+          {emoji} {count}
+        </button>
+      ))}
+      {picking ? (
+        REACTION_EMOJIS.map(emoji => (
+          <button key={emoji} onClick={() => { onToggle(emoji); setPicking(false); }} style={styles.reaction}>{emoji}</button>
+        ))
+      ) : (
+        <button onClick={() => setPicking(true)} style={styles.reaction} title="リアクションを追加">＋</button>
+      )}
+    </div>
+  );
+}
+
+function MessageItem({ message, userId, reactions, readers, replyCount, onEdit, onDelete, onReact, onOpenThread }: {
+  message: Message;
+  userId: string;
+  reactions: Reaction[];
+  // 自分のメッセージを読んだ他のユーザー
+  readers?: string[];
+  replyCount?: number;
+  onEdit: (message: Message, content: string) => void;
+  onDelete: (message: Message) => void;
+  onReact: (message: Message, emoji: string) => void;
+  // スレッド内の返信には付けない
+  onOpenThread?: (message: Message) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const isOwn = message.userId === userId;
+  const isPending = isLocalId(message.id);
+  const { deleted } = message.data;
+
+  const startEdit = () => {
+    setDraft(message.data.content);
+    setEditing(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = draft.trim();
+    setEditing(false);
+    if (content && content !== message.data.content) onEdit(message, content);
+  };
+
+  return (
+    <div
+      style={{
+        ...styles.message,
+        ...(isOwn ? styles.messageOwn : {}),
+        ...(isPending ? { opacity: 0.5 } : {}),
+      }}
+    >
+      {!isOwn && (
+        <div style={{ fontSize: '12px', color: '#666', marginBottom: '4px' }}>
+          {displayName(message.data.userEmail)}
+        </div>
+      )}
+      {editing ? (
+        <form onSubmit={handleSave} style={{ display: 'flex', gap: '6px' }}>
+          <input
+            type="text"
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => e.key === 'Escape' && setEditing(false)}
+            style={{ ...styles.smallInput, flex: 1 }}
+            autoFocus
+          />
+          <button type="submit" style={styles.smallButton}>保存</button>
+          <button type="button" onClick={() => setEditing(false)} style={{ ...styles.smallButton, background: '#666' }}>キャンセル</button>
+        </form>
+      ) : (
+        <div
+          style={{
+            ...styles.messageBubble,
+            ...(isOwn ? styles.messageBubbleOwn : {}),
+            ...(deleted ? styles.messageDeleted : {}),
+          }}
+        >
+          {deleted ? 'このメッセージは削除されました' : message.data.content}
+        </div>
+      )}
+      <div style={styles.messageTime}>
+        {isPending ? '送信待ち' : formatTime(message.data.createdAt)}
+        {message.data.editedAt && !deleted && '（編集済み）'}
+        {readers && readers.length > 0 && (
+          <span title={readers.join(', ')} style={{ marginLeft: '6px' }}>既読 {readers.length}</span>
+        )}
+      </div>
+      {!deleted && !isPending && <ReactionBar reactions={reactions} userId={userId} onToggle={emoji => onReact(message, emoji)} />}
+      <div style={{ ...styles.messageActions, ...(isOwn ? { justifyContent: 'flex-end' } : {}) }}>
+        {onOpenThread && !isPending && (replyCount || !deleted) && (
+          <button onClick={() => onOpenThread(message)} style={styles.messageAction}>
+            {replyCount ? `返信 ${replyCount}件` : '返信'}
+          </button>
+        )}
+        {isOwn && !isPending && !deleted && !editing && (
+          <>
+            <button onClick={startEdit} style={styles.messageAction}>編集</button>
+            <button onClick={() => onDelete(message)} style={{ ...styles.messageAction, color: '#dc3545' }}>削除</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ThreadPanel({ parent, replies, userId, reactionsOf, readersOf, onSend, onTyping, onClose, ...actions }: {
+  parent: Message;
+  replies: Message[];
+  userId: string;
+  reactionsOf: (messageId: string) => Reaction[];
+  readersOf: (message: Message) => string[] | undefined;
+  onSend: (content: string) => Promise<boolean>;
+  onTyping: (draft: string) => void;
+  onClose: () => void;
+  onEdit: (message: Message, content: string) => void;
+  onDelete: (message: Message) => void;
+  onReact: (message: Message, emoji: string) => void;
+}) {
+  const [reply, setReply] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = reply;
+    if (!content.trim()) return;
+    setReply('');
+    // 失敗したら入力欄に戻して再送できるようにする
+    if (!(await onSend(content))) setReply(current => current || content);
+  };
+
+  return (
+    <aside style={styles.thread}>
+      <div style={styles.threadHeader}>
+        スレッド
+        <button onClick={onClose} style={styles.messageAction} aria-label="スレッドを閉じる">✕</button>
+      </div>
+      <div style={{ ...styles.messages, padding: '15px' }}>
+        <MessageItem message={parent} userId={userId} reactions={reactionsOf(parent.id)} readers={readersOf(parent)} {...actions} />
+        <div style={{ fontSize: '12px', color: '#999', margin: '10px 0', borderTop: '1px solid #eee', paddingTop: '6px' }}>
+          {replies.length > 0 ? `${replies.length}件の返信` : 'まだ返信はありません'}
+        </div>
+        {replies.map(message => (
+          <MessageItem key={message.id} message={message} userId={userId} reactions={reactionsOf(message.id)} readers={readersOf(message)} {...actions} />
+        ))}
+      </div>
+      <form onSubmit={handleSubmit} style={styles.inputArea}>
+        <input
+          type="text"
+          placeholder="返信を入力..."
+          value={reply}
+          onChange={e => {
+            setReply(e.target.value);
+            onTyping(e.target.value);
+          }}
+          style={styles.messageInput}
+        />
+        <button type="submit" style={styles.sendButton}>返信</button>
+      </form>
+    </aside>
+  );
+}
+
+// ==========================================
+// 在室状況・入力中・既読
+// ==========================================
+// どれも通常の購読で受け取るので、push非対応ならポーリング、SSEが使えればそのままリアルタイムになる
+
+// 一定間隔で現在時刻を更新して、時間の経過で変わる表示（オンライン・入力中）を描き直す
+function useNow(interval: number) {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), interval);
+    return () => clearInterval(timer);
+  }, [interval]);
+
+  return now;
+}
+
+// ユーザー×ルームごとに1件だけ持つ自分のレコードを取得し、なければ作る
+async function findOrCreateOwn<T extends { userEmail: string; roomId: string }>(
+  collection: Collection<T>,
+  userId: string,
+  initial: T
+): Promise<DataRecord<T> | null> {
+  const where = { userEmail: initial.userEmail, roomId: initial.roomId } as Where<T>;
+  const result = await data.list(collection, { where });
+  if (!result.success) return null;
+  const existing = result.data?.find(r => r.userId === userId);
+  if (existing) return existing;
+  const created = await data.create(collection, initial);
+  return created.success && created.data ? created.data : null;
+}
+
+// 同時に呼ばれても自分のレコードを重複して作らないよう、取得中のPromiseを共有する
+function useOwnRecord<T extends { userEmail: string; roomId: string }>(collection: Collection<T>, userId: string, initial: () => T) {
+  const pending = useRef<Promise<DataRecord<T> | null> | null>(null);
+
+  return () => {
+    if (!pending.current) {
+      pending.current = findOrCreateOwn(collection, userId, initial()).then(record => {
+        // 失敗したら次の呼び出しでやり直す
+        if (!record) pending.current = null;
+        return record;
+      });
+    }
+    return pending.current;
+  };
+}
+
+function usePresence(roomId: string, user: { id: string; email: string }) {
+  const [presences, setPresences] = useState<Presence[]>([]);
+  const lastTypedAt = useRef(0);
+  const now = useNow(TYPING_TIMEOUT);
+  const own = useOwnRecord(presenceCollection, user.id, () => ({ userEmail: user.email, roomId, lastSeenAt: new Date().toISOString() }));
+
+  // 自分の在室状況を更新する。古い在室情報を再接続後に送っても意味がないので、オフライン中は送らない
+  const beat = async (changes: RecordChanges<Presence['data']> = {}) => {
+    if (data.sync.getState().status === 'offline') return;
+    const record = await own();
+    if (record) await data.update(presenceCollection, record.id, { leftAt: null, ...changes, lastSeenAt: new Date().toISOString() });
+  };
+
+  useEffect(() => {
+    const unsubscribe = data.subscribe(presenceCollection, { roomId }, event => {
+      setPresences(prev => applyChange(prev, event));
+    });
+    const loadPresences = async () => {
+      const since = new Date(Date.now() - PRESENCE_TIMEOUT).toISOString();
+      const result = await data.list(presenceCollection, { where: { roomId, lastSeenAt: { gt: since } }, cache: false });
+      if (result.success && result.data) {
+        const loaded = result.data;
+        setPresences(prev => loaded.reduce((merged, record) => applyChange(merged, { type: 'insert', record }), prev));
+      }
+    };
+    loadPresences();
+    beat();
+    const timer = setInterval(() => beat(), HEARTBEAT_INTERVAL);
+    const leave = () => beat({ typingAt: null, leftAt: new Date().toISOString() });
+    window.addEventListener('pagehide', leave);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+      window.removeEventListener('pagehide', leave);
+      leave();
+    };
+  }, []);
+
+  // 入力欄が変わるたびに呼ぶ（空になったら入力中を取り消す）
+  const handleTyping = (draft: string) => {
+    if (!draft.trim()) {
+      stopTyping();
+      return;
+    }
+    const typedAt = Date.now();
+    if (typedAt - lastTypedAt.current < TYPING_THROTTLE) return;
+    lastTypedAt.current = typedAt;
+    beat({ typingAt: new Date(typedAt).toISOString() });
+  };
+
+  const stopTyping = () => {
+    if (!lastTypedAt.current) return;
+    lastTypedAt.current = 0;
+    beat({ typingAt: null });
+  };
+
+  const online = presences.filter(p => !p.data.leftAt && now - Date.parse(p.data.lastSeenAt) < PRESENCE_TIMEOUT);
+  const typing = online.filter(p => p.userId !== user.id && p.data.typingAt && now - Date.parse(p.data.typingAt) < TYPING_TIMEOUT);
+  return { online, typing, handleTyping, stopTyping };
+}
+
+// 表示中のルームの既読位置を、最新のメッセージまで進める（タブが見えているときだけ）
+function useReadMarkers(roomId: string, user: { id: string; email: string }, latestAt: string | undefined, onRead: (roomId: string) => void) {
+  const [markers, setMarkers] = useState<ReadMarker[]>([]);
+  const sentAt = useRef('');
+  const own = useOwnRecord(readMarkersCollection, user.id, () => ({ userEmail: user.email, roomId, lastReadAt: latestAt || '' }));
+
+  useEffect(() => {
+    const unsubscribe = data.subscribe(readMarkersCollection, { roomId }, event => {
+      setMarkers(prev => applyChange(prev, event));
+    });
+    const loadMarkers = async () => {
+      const result = await data.list(readMarkersCollection, { where: { roomId } });
+      if (result.success && result.data) {
+        const loaded = result.data;
+        setMarkers(prev => loaded.reduce((merged, record) => applyChange(merged, { type: 'insert', record }), prev));
+      }
+    };
+    loadMarkers();
+    return unsubscribe;
+  }, []);
+
+  const markRead = async () => {
+    if (!latestAt || document.visibilityState !== 'visible') return;
+    onRead(roomId);
+    if (latestAt <= sentAt.current) return;
+    sentAt.current = latestAt;
+    const record = await own();
+    if (record && record.data.lastReadAt < latestAt) {
+      await data.update(readMarkersCollection, record.id, { lastReadAt: latestAt });
+    }
+  };
+
+  useEffect(() => {
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [latestAt]);
+
+  // 自分のメッセージだけ、読んだ他のユーザーを返す
+  const readersOf = (message: Message) => {
+    if (message.userId !== user.id || isLocalId(message.id)) return undefined;
+    return markers
+      .filter(m => m.userId !== user.id && m.data.lastReadAt >= message.data.createdAt)
+      .map(m => displayName(m.data.userEmail));
+  };
+
+  return { readersOf };
+}
+
+function ChatRoom({ user, room, onRoomChange, onRead }: {
+  user: { id: string; email: string };
+  room: Room;
+  onRoomChange: () => void;
+  onRead: (roomId: string) => void;
+}) {
   const [messages, setMessages] = useState<Message[]>([]);
+  const [reactions, setReactions] = useState<Reaction[]>([]);
+  const [threadId, setThreadId] = useState<string | null>(null);
   const [newMessage, setNewMessage] = useState('');
+  const [toast, setToast] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const roomId = 'general'; // 簡略化: 単一のパブリックルーム
+  const roomId = room.id;
+  const { online, typing, handleTyping, stopTyping } = usePresence(roomId, user);
+  // 送信待ちのメッセージは既読位置に含めない
+  const latestAt = messages.reduce<string | undefined>(
+    (latest, m) => (!isLocalId(m.id) && (!latest || m.data.createdAt > latest) ? m.data.createdAt : latest),
+    undefined
+  );
+  const { readersOf } = useReadMarkers(roomId, user, latestAt, onRead);
 
   useEffect(() => {
-    loadMessages();
-    // ポーリングで新着メッセージを取得
-    const interval = setInterval(loadMessages, 3000);
-    return () => clearInterval(interval);
+    let unsubscribe = () => {};
+    let unsubscribeReactions = () => {};
+    let cancelled = false;
+    // 履歴を取得したサーバーの時刻から、新着をリアルタイムに受け取る（push非対応なら差分ポーリング）
+    loadMessages().then(since => {
+      if (cancelled) return;
+      unsubscribe = data.subscribe(messagesCollection, { roomId }, event => {
+        setMessages(prev => applyChange(prev, event));
+      }, { since });
+      unsubscribeReactions = data.subscribe(reactionsCollection, { roomId }, event => {
+        setReactions(prev => applyChange(prev, event));
+      }, { since });
+    });
+    // オフライン中に送ったメッセージ・リアクションは、送信できたらサーバーのレコードに置き換える
+    const unsubscribeReplay = data.sync.onReplayed((localId, record) => {
+      const message = messagesCollection.schema.parse(record.data);
+      if (message.ok && message.value.roomId === roomId) {
+        setMessages(prev => replaceLocal(prev, localId, { ...record, data: message.value }));
+        return;
+      }
+      const reaction = reactionsCollection.schema.parse(record.data);
+      if (reaction.ok && reaction.value.roomId === roomId) {
+        setReactions(prev => replaceLocal(prev, localId, { ...record, data: reaction.value }));
+      }
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      unsubscribeReactions();
+      unsubscribeReplay();
+    };
   }, []);
 
-  useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+  // 取得済みのメッセージに付いたリアクションを読み込む
+  const loadReactions = async (messageIds: string[]) => {
+    if (messageIds.length === 0) return;
+    const result = await data.list(reactionsCollection, { where: { roomId, messageId: { in: messageIds } } });
+    if (result.success && result.data) {
+      const loaded = result.data;
+      setReactions(prev => loaded.reduce((merged, record) => applyChange(merged, { type: 'insert', record }), prev));
+    }
+  };
 
   const loadMessages = async () => {
-    const result = await data.list('messages');
+    // 新しい順に直近の履歴だけ取得して、表示用に古い順へ戻す
+    const result = await data.list(messagesCollection, {
+      where: { roomId },
+      orderBy: { field: 'createdAt', direction: 'desc' },
+      limit: HISTORY_LIMIT,
+    });
+    if (result.success && result.data) {
+      const history = [...result.data].reverse();
+      // 取得中に送ったメッセージは残す
+      setMessages(prev => prev.reduce((merged, record) => applyChange(merged, { type: 'insert', record }), history));
+      await loadReactions(history.map(m => m.id));
+    }
+    return result.meta?.serverTime;
+  };
+
+  // 直近の履歴に含まれていない古い返信も、スレッドを開いたときに取得する
+  const loadThread = async (parentId: string) => {
+    const result = await data.list(messagesCollection, {
+      where: { roomId, parentId },
+      orderBy: { field: 'createdAt', direction: 'asc' },
+    });
     if (result.success && result.data) {
-      const roomMessages = result.data
-        .filter((m: { data: Record<string, unknown> }) => m.data.roomId === roomId)
-        .sort((a: { data: Record<string, unknown> }, b: { data: Record<string, unknown> }) =>
-          new Date(a.data.createdAt as string).getTime() - new Date(b.data.createdAt as string).getTime()
-        ) as Message[];
-      setMessages(roomMessages);
+      const replies = result.data;
+      setMessages(prev => replies.reduce((merged, record) => applyChange(merged, { type: 'insert', record }), prev));
+      await loadReactions(replies.map(r => r.id));
     }
   };
 
+  const openThread = (message: Message) => {
+    setThreadId(message.id);
+    loadThread(message.id);
+  };
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  const sendMessage = async (content: string, parentId?: string) => {
+    const pending: Message = {
+      id: createLocalId(),
+      // 送信中も自分のメッセージとして表示する（保存時はサーバーが付与する）
+      userId: user.id,
+      data: { content, userEmail: user.email, roomId, createdAt: new Date().toISOString(), ...(parentId ? { parentId } : {}) },
+    };
+
+    const result = await runOptimistic({
+      apply: () => setMessages(prev => [...prev, pending]),
+      request: () => data.create(messagesCollection, pending.data),
+      rollback: () => setMessages(prev => prev.filter(m => m.id !== pending.id)),
+      reconcile: record => {
+        // キューに積まれた場合はまだ userId が付いていないので、仮のメッセージから引き継ぐ
+        if (record) setMessages(prev => replaceLocal(prev, pending.id, { userId: pending.userId, ...record }));
+      },
+    });
+
+    if (result.success) {
+      monitor.logEvent(parentId ? 'message_replied' : 'message_sent', { roomId });
+    } else {
+      setToast(`送信に失敗しました: ${result.error?.message || 'エラーが発生しました'}`);
+    }
+    return result.success;
+  };
+
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newMessage.trim()) return;
 
-    const result = await data.create('messages', {
-      content: newMessage,
-      userId: user.id,
-      userEmail: user.email,
-      roomId,
-      createdAt: new Date().toISOString(),
+    const content = newMessage;
+    setNewMessage('');
+    stopTyping();
+    // 入力欄に戻して再送できるようにする
+    if (!(await sendMessage(content))) setNewMessage(current => current || content);
+  };
+
+  const handleEdit = async (message: Message, content: string) => {
+    const changes = { content, editedAt: new Date().toISOString() };
+    const result = await runOptimistic({
+      apply: () => setMessages(prev => prev.map(m => (m.id === message.id ? { ...m, data: { ...m.data, ...changes } } : m))),
+      request: () => data.update(messagesCollection, message.id, changes),
+      rollback: () => setMessages(prev => prev.map(m => (m.id === message.id ? message : m))),
     });
+    if (result.success) {
+      monitor.logEvent('message_edited', { roomId });
+    } else {
+      setToast(`編集に失敗しました: ${result.error?.message || 'エラーが発生しました'}`);
+    }
+  };
 
+  const handleDelete = async (message: Message) => {
+    if (!window.confirm('このメッセージを削除しますか？')) return;
+    // 読み込んでいない古い履歴にも返信があるかもしれないので、サーバーに問い合わせる
+    const replies = await data.list(messagesCollection, { where: { roomId, parentId: message.id }, limit: 1, cache: false });
+    if (!replies.success) {
+      setToast(`削除に失敗しました: ${replies.error?.message || 'エラーが発生しました'}`);
+      return;
+    }
+    const hasReplies = (replies.data?.length ?? 0) > 0;
+    const removedReactions = reactions.filter(r => r.data.messageId === message.id);
+    // 返信が付いていれば、スレッドを残すために本文だけ消す（リアクションは表示しない）
+    // 返信がなければメッセージごと消す。リアクションはサーバーがメッセージと一緒に消す（deleteWith）
+    const result = hasReplies
+      ? await runOptimistic({
+        apply: () => setMessages(prev => prev.map(m => (m.id === message.id ? { ...m, data: { ...m.data, content: '', deleted: true } } : m))),
+        request: () => data.update(messagesCollection, message.id, { content: '', deleted: true, editedAt: null }),
+        rollback: () => setMessages(prev => prev.map(m => (m.id === message.id ? message : m))),
+      })
+      : await runOptimistic({
+        apply: () => {
+          setMessages(prev => prev.filter(m => m.id !== message.id));
+          setReactions(prev => prev.filter(r => r.data.messageId !== message.id));
+          if (threadId === message.id) setThreadId(null);
+        },
+        request: () => data.delete(messagesCollection, message.id),
+        rollback: () => {
+          setMessages(prev => [...prev, message].sort(byCreatedAt));
+          setReactions(prev => [...prev, ...removedReactions]);
+        },
+      });
     if (result.success) {
-      trackEvent('message_sent', { roomId });
-      setNewMessage('');
-      loadMessages();
+      monitor.logEvent('message_deleted', { roomId });
+    } else {
+      setToast(`削除に失敗しました: ${result.error?.message || 'エラーが発生しました'}`);
     }
   };
 
-  const formatTime = (dateStr: string) => {
-    const date = new Date(dateStr);
-    return date.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' });
+  // 同じ絵文字をもう一度押したら取り消す
+  const handleReact = async (message: Message, emoji: string) => {
+    const mine = reactions.find(r => r.data.messageId === message.id && r.data.emoji === emoji && r.userId === user.id);
+    if (mine) {
+      // 送信待ちのリアクションは、送信が終わるまで取り消せない
+      if (isLocalId(mine.id)) return;
+      const result = await runOptimistic({
+        apply: () => setReactions(prev => prev.filter(r => r.id !== mine.id)),
+        request: () => data.delete(reactionsCollection, mine.id),
+        rollback: () => setReactions(prev => [...prev, mine]),
+      });
+      if (!result.success) setToast(`リアクションを取り消せませんでした: ${result.error?.message || 'エラーが発生しました'}`);
+      return;
+    }
+
+    const pending: Reaction = {
+      id: createLocalId(),
+      userId: user.id,
+      data: { messageId: message.id, roomId, emoji, userEmail: user.email, createdAt: new Date().toISOString() },
+    };
+    const result = await runOptimistic({
+      apply: () => setReactions(prev => [...prev, pending]),
+      request: () => data.create(reactionsCollection, pending.data),
+      rollback: () => setReactions(prev => prev.filter(r => r.id !== pending.id)),
+      reconcile: record => {
+        if (record) setReactions(prev => replaceLocal(prev, pending.id, { userId: pending.userId, ...record }));
+      },
+    });
+    if (result.success) {
+      monitor.logEvent('message_reacted', { roomId, emoji });
+    } else {
+      setToast(`リアクションに失敗しました: ${result.error?.message || 'エラーが発生しました'}`);
+    }
   };
 
+  const reactionsOf = (messageId: string) => reactions.filter(r => r.data.messageId === messageId);
+  const repliesOf = (messageId: string) => messages.filter(m => m.data.parentId === messageId).sort(byCreatedAt);
+  // 返信はスレッドの中だけに表示する
+  const timeline = messages.filter(m => !m.data.parentId);
+  const threadParent = threadId ? messages.find(m => m.id === threadId) : undefined;
+  const messageActions = { onEdit: handleEdit, onDelete: handleDelete, onReact: handleReact };
+
+  // 新着のときだけスクロールする（編集・リアクション・スレッドへの返信では動かさない）
+  useEffect(() => {
+    scrollToBottom();
+  }, [timeline.length]);
+
   return (
     <div style={styles.chatContainer}>
       <div style={styles.roomInfo}>
-        <strong>General</strong> - パブリックチャットルーム
-      </div>
-      <div style={styles.messages}>
-        {messages.length === 0 && (
-          <p style={{ textAlign: 'center', color: '#999' }}>メッセージがありません。最初のメッセージを送信しましょう！</p>
+        <strong>{room.data.name}</strong> - {room.data.visibility === 'private' ? 'プライベートルーム' : 'パブリックチャットルーム'}
+        {room.data.visibility === 'private' && (
+          <div style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>メンバー: {room.data.memberEmails.join(', ')}</div>
         )}
-        {messages.map(msg => (
-          <div
-            key={msg.id}
-            style={{
-              ...styles.message,
-              ...(msg.data.userId === user.id ? styles.messageOwn : {}),
-            }}
-          >
-            {msg.data.userId !== user.id && (
-              <div style={{ fontSize: '12px', color: '#666', marginBottom: '4px' }}>
-                {msg.data.userEmail.split('@')[0]}
-              </div>
-            )}
-            <div
-              style={{
-                ...styles.messageBubble,
-                ...(msg.data.userId === user.id ? styles.messageBubbleOwn : {}),
-              }}
-            >
-              {msg.data.content}
-            </div>
-            <div style={styles.messageTime}>{formatTime(msg.data.createdAt)}</div>
+        {room.data.visibility === 'private' && room.userId === user.id && (
+          <InviteForm room={room} onInvited={onRoomChange} />
+        )}
+        {online.length > 0 && (
+          <div style={styles.onlineUsers}>
+            <span style={styles.onlineDot}>●</span>
+            オンライン: {online.map(p => (p.userId === user.id ? `${displayName(p.data.userEmail)}（自分）` : displayName(p.data.userEmail))).join(', ')}
           </div>
-        ))}
-        <div ref={messagesEndRef} />
+        )}
+      </div>
+      <div style={styles.chatBody}>
+        <div style={styles.messages}>
+          {timeline.length === 0 && (
+            <p style={{ textAlign: 'center', color: '#999' }}>メッセージがありません。最初のメッセージを送信しましょう！</p>
+          )}
+          {timeline.map(msg => (
+            <MessageItem
+              key={msg.id}
+              message={msg}
+              userId={user.id}
+              reactions={reactionsOf(msg.id)}
+              readers={readersOf(msg)}
+              replyCount={repliesOf(msg.id).length}
+              onOpenThread={openThread}
+              {...messageActions}
+            />
+          ))}
+          <div ref={messagesEndRef} />
+        </div>
+        {threadParent && (
+          <ThreadPanel
+            key={threadParent.id}
+            parent={threadParent}
+            replies={repliesOf(threadParent.id)}
+            userId={user.id}
+            reactionsOf={reactionsOf}
+            readersOf={readersOf}
+            onSend={content => {
+              stopTyping();
+              return sendMessage(content, threadParent.id);
+            }}
+            onTyping={handleTyping}
+            onClose={() => setThreadId(null)}
+            {...messageActions}
+          />
+        )}
       </div>
-      <form onSubmit={handleSend} style={styles.inputArea}>
+      <div style={styles.typing}>
+        {typing.length > 0 && (
+          typing.length > 2
+            ? `${typing.length}人が入力中…`
+            : `${typing.map(p => displayName(p.data.userEmail)).join('、')}が入力中…`
+        )}
+      </div>
+      <form onSubmit={handleSend} style={{ ...styles.inputArea, borderTop: 'none', paddingTop: 0 }}>
         <input
           type="text"
           placeholder="メッセージを入力..."
           value={newMessage}
-          onChange={e => setNewMessage(e.target.value)}
+          onChange={e => {
+            setNewMessage(e.target.value);
+            handleTyping(e.target.value);
+          }}
           style={styles.messageInput}
         />
         <button type="submit" style={styles.sendButton}>送信</button>
       </form>
+      {toast && <Toast message={toast} onClose={() => setToast(null)} />}
+    </div>
+  );
+}
+
+// ==========================================
+// ルーティング（/rooms/:roomId）
+// ==========================================
+function parseRoomId() {
+  const match = window.location.pathname.match(/^\/rooms\/([^/]+)/);
+  return match ? decodeURIComponent(match[1]) : GENERAL_ROOM.id;
+}
+
+function useRoomRoute(): [string, (roomId: string) => void] {
+  const [roomId, setRoomId] = useState(parseRoomId);
+
+  useEffect(() => {
+    const handlePopState = () => setRoomId(parseRoomId());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = (nextRoomId: string) => {
+    window.history.pushState(null, '', `/rooms/${encodeURIComponent(nextRoomId)}`);
+    setRoomId(nextRoomId);
+  };
+
+  return [roomId, navigate];
+}
+
+// 招待時に小文字にそろえているので、比較するときも小文字にする
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// 表示の判定用（読めるかどうかはサーバーのルールで決まる）
+function canAccessRoom(room: Room, user: { id: string; email: string }) {
+  const email = normalizeEmail(user.email);
+  return room.data.visibility === 'public' || room.userId === user.id || room.data.memberEmails.some(m => normalizeEmail(m) === email);
+}
+
+function RoomSidebar({ rooms, currentRoomId, unread, onSelect, onCreate }: {
+  rooms: Room[];
+  currentRoomId: string;
+  unread: Record<string, string[]>;
+  onSelect: (roomId: string) => void;
+  onCreate: (name: string, visibility: Room['data']['visibility']) => void;
+}) {
+  const [name, setName] = useState('');
+  const [isPrivate, setIsPrivate] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onCreate(name.trim(), isPrivate ? 'private' : 'public');
+    setName('');
+    setIsPrivate(false);
+  };
+
+  return (
+    <nav style={styles.sidebar}>
+      <div style={{ padding: '15px', fontWeight: 'bold', borderBottom: '1px solid #eee' }}>ルーム</div>
+      {rooms.map(room => (
+        <button
+          key={room.id}
+          onClick={() => onSelect(room.id)}
+          style={{ ...styles.roomItem, ...(room.id === currentRoomId ? styles.roomItemActive : {}) }}
+        >
+          {room.data.visibility === 'private' ? '🔒' : '#'} {room.data.name}
+          {room.id !== currentRoomId && (unread[room.id]?.length || 0) > 0 && (
+            <span style={styles.unreadBadge}>{unread[room.id].length >= UNREAD_LIMIT ? `${UNREAD_LIMIT - 1}+` : unread[room.id].length}</span>
+          )}
+        </button>
+      ))}
+      <form onSubmit={handleSubmit} style={styles.sidebarForm}>
+        <input type="text" placeholder="新しいルーム名" value={name} onChange={e => setName(e.target.value)} style={styles.smallInput} />
+        <label style={{ fontSize: '13px' }}>
+          <input type="checkbox" checked={isPrivate} onChange={e => setIsPrivate(e.target.checked)} /> プライベート
+        </label>
+        <button type="submit" style={styles.smallButton}>作成</button>
+      </form>
+    </nav>
+  );
+}
+
+function InviteForm({ room, onInvited }: { room: Room; onInvited: () => void }) {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const invitee = normalizeEmail(email);
+    if (room.data.memberEmails.some(m => normalizeEmail(m) === invitee)) {
+      setError('すでにメンバーです');
+      return;
+    }
+    const result = await data.update(roomsCollection, room.id, { memberEmails: [...room.data.memberEmails, invitee] });
+    if (result.success) {
+      monitor.logEvent('room_invited', { roomId: room.id });
+      setEmail('');
+      onInvited();
+    } else {
+      setError(result.error?.message || '招待に失敗しました');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} style={{ display: 'flex', gap: '8px', marginTop: '8px', alignItems: 'center' }}>
+      <input type="email" placeholder="招待するメールアドレス" value={email} onChange={e => setEmail(e.target.value)} style={{ ...styles.smallInput, flex: 1 }} required />
+      <button type="submit" style={styles.smallButton}>招待</button>
+      {error && <span style={{ color: 'red', fontSize: '13px' }}>{error}</span>}
+    </form>
+  );
+}
+
+function ChatRooms({ user }: { user: { id: string; email: string } }) {
+  const [rooms, setRooms] = useState<Room[]>([GENERAL_ROOM]);
+  const [roomsLoaded, setRoomsLoaded] = useState(false);
+  // ルームごとの未読メッセージのid
+  const [unread, setUnread] = useState<Record<string, string[]>>({});
+  const [roomId, navigate] = useRoomRoute();
+  const currentRoomId = useRef(roomId);
+  currentRoomId.current = roomId;
+  const roomIds = rooms.map(r => r.id);
+
+  useEffect(() => {
+    loadRooms();
+  }, []);
+
+  // 表示していないルームに他のユーザーが送ったメッセージを未読として数える
+  useEffect(() => {
+    if (!roomsLoaded) return;
+    loadUnread();
+    return data.subscribe(messagesCollection, { roomId: { in: roomIds } }, event => {
+      if (event.type === 'delete') {
+        setUnread(prev => Object.fromEntries(Object.entries(prev).map(([id, ids]) => [id, ids.filter(m => m !== event.id)])));
+        return;
+      }
+      const { record } = event;
+      if (event.type !== 'insert' || record.userId === user.id || record.data.roomId === currentRoomId.current) return;
+      setUnread(prev => {
+        const ids = prev[record.data.roomId] || [];
+        return ids.includes(record.id) ? prev : { ...prev, [record.data.roomId]: [...ids, record.id] };
+      });
+    });
+  }, [roomsLoaded, roomIds.join(',')]);
+
+  // 既読位置より後のメッセージを数える（既読位置がなければ直近の UNREAD_LIMIT 件がすべて未読）
+  const loadUnread = async () => {
+    const markers = await data.list(readMarkersCollection, { where: { userEmail: user.email } });
+    const lastReadAt = new Map((markers.data || []).filter(m => m.userId === user.id).map(m => [m.data.roomId, m.data.lastReadAt]));
+    const entries = await Promise.all(roomIds.map(async id => {
+      const since = lastReadAt.get(id);
+      const result = await data.list(messagesCollection, {
+        where: { roomId: id, ...(since ? { createdAt: { gt: since } } : {}) },
+        orderBy: { field: 'createdAt', direction: 'desc' },
+        limit: UNREAD_LIMIT,
+        cache: false,
+      });
+      const ids = id === currentRoomId.current ? [] : (result.data || []).filter(m => m.userId !== user.id).map(m => m.id);
+      return [id, ids] as const;
+    }));
+    setUnread(Object.fromEntries(entries));
+  };
+
+  const handleRead = (readRoomId: string) => {
+    setUnread(prev => (prev[readRoomId]?.length ? { ...prev, [readRoomId]: [] } : prev));
+  };
+
+  const loadRooms = async () => {
+    // 公開ルームと、自分がメンバーのプライベートルームを取得
+    const [publicRooms, myRooms] = await Promise.all([
+      data.list(roomsCollection, { where: { visibility: 'public' }, orderBy: { field: 'createdAt', direction: 'asc' } }),
+      data.list(roomsCollection, { where: { visibility: 'private', memberEmails: { contains: normalizeEmail(user.email) } }, orderBy: { field: 'createdAt', direction: 'asc' } }),
+    ]);
+    const visible = [...(publicRooms.data || []), ...(myRooms.data || [])].filter(room => canAccessRoom(room, user));
+    setRooms([GENERAL_ROOM, ...visible]);
+    setRoomsLoaded(true);
+  };
+
+  const handleCreate = async (name: string, visibility: Room['data']['visibility']) => {
+    const result = await data.create(roomsCollection, {
+      name,
+      visibility,
+      memberEmails: [normalizeEmail(user.email)],
+      createdAt: new Date().toISOString(),
+    });
+    if (result.success && result.data) {
+      monitor.logEvent('room_created', { roomId: result.data.id, visibility });
+      await loadRooms();
+      navigate(result.data.id);
+    }
+  };
+
+  const room = rooms.find(r => r.id === roomId);
+
+  return (
+    <div style={styles.layout}>
+      <RoomSidebar rooms={rooms} currentRoomId={roomId} unread={unread} onSelect={navigate} onCreate={handleCreate} />
+      {room ? (
+        <ChatRoom key={room.id} user={user} room={room} onRoomChange={loadRooms} onRead={handleRead} />
+      ) : (
+        <div style={{ ...styles.chatContainer, alignItems: 'center', justifyContent: 'center' }}>
+          {roomsLoaded ? (
+            <p style={{ color: '#666' }}>
+              ルームが見つかりません。
+              <button onClick={() => navigate(GENERAL_ROOM.id)} style={{ ...styles.roomItem, display: 'inline', width: 'auto', color: '#0066cc' }}>General に戻る</button>
+            </p>
+          ) : (
+            <p style={{ color: '#666' }}>読み込み中...</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Toast({ message, onClose }: { message: string; onClose: () => void }) {
+  useEffect(() => {
+    const timer = setTimeout(onClose, 4000);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  return (
+    <div role="alert" style={styles.toast} onClick={onClose}>
+      {message}
+    </div>
+  );
+}
+
+function SyncIndicator() {
+  const [sync, setSync] = useState(data.sync.getState());
+
+  useEffect(() => data.sync.subscribe(setSync), []);
+
+  const label = sync.status === 'syncing'
+    ? '同期中...'
+    : sync.status === 'offline'
+      ? `オフライン${sync.pending > 0 ? `（未送信 ${sync.pending}件）` : ''}`
+      : sync.pending > 0 ? `未送信 ${sync.pending}件` : '同期済み';
+  const color = sync.status === 'offline' ? '#e67e22' : sync.status === 'syncing' ? '#0066cc' : '#28a745';
+
+  return (
+    <div style={styles.syncStatus}>
+      <span style={{ color }}>●</span> {label}
+      {sync.lastError && <span style={{ color: 'red', marginLeft: '8px' }}>{sync.lastError}</span>}
     </div>
   );
 }
@@ -269,6 +1130,15 @@ function ChatRoom({ user }: { user: { id: string; email: string } }) {
 function App() {
   const [user, setUser] = useState<{ id: string; email: string } | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
+
+  useEffect(() => {
+    // トークンを更新できなかったらログイン画面に戻す
+    return auth.onSessionExpired(() => {
+      setUser(null);
+      setSessionExpired(true);
+    });
+  }, []);
 
   useEffect(() => {
     const init = async () => {
@@ -276,7 +1146,7 @@ function App() {
         const result = await auth.me();
         if (result.success && result.data) {
           setUser(result.data);
-          trackEvent('app_loaded', { userId: result.data.id });
+          monitor.logEvent('app_loaded', { userId: result.data.id });
         }
       }
       setLoading(false);
@@ -285,7 +1155,7 @@ function App() {
   }, []);
 
   const handleLogout = async () => {
-    trackEvent('user_logout');
+    monitor.logEvent('user_logout');
     await auth.logout();
     setUser(null);
   };
@@ -303,14 +1173,21 @@ function App() {
             <button onClick={handleLogout} style={{ ...styles.buttonSecondary, marginLeft: '10px' }}>ログアウト</button>
           </p>
         )}
+        {user && <SyncIndicator />}
       </header>
       {!user ? (
-        <AuthForm onLogin={async () => {
-          const result = await auth.me();
-          if (result.success && result.data) setUser(result.data);
-        }} />
+        <AuthForm
+          notice={sessionExpired ? 'セッションの有効期限が切れました。再度ログインしてください' : undefined}
+          onLogin={async () => {
+            const result = await auth.me();
+            if (result.success && result.data) {
+              setSessionExpired(false);
+              setUser(result.data);
+            }
+          }}
+        />
       ) : (
-        <ChatRoom user={user} />
+        <ChatRooms user={user} />
       )}
     </div>
   );
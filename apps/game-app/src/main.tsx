@@ -1,90 +1,39 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
+import { createClient, defineCollection, s, type CollectionRecord } from 'nanobase-client';
+import { BATCH_INTERVAL_MS, GAME_DURATION_MS, type FinishSessionResponse, type StartSessionResponse } from 'game-verifier/protocol';
 
 // API設定
-const API_CONFIG = {
-  easyauthUrl: import.meta.env.VITE_EASYAUTH_URL || 'http://localhost:3201',
-  pocketdataUrl: import.meta.env.VITE_POCKETDATA_URL || 'http://localhost:3202',
-  monitorUrl: import.meta.env.VITE_MONITOR_URL || 'http://localhost:3204',
+const { auth, data, monitor, apiFetch } = createClient({
   projectId: import.meta.env.VITE_PROJECT_ID || 'game-app',
-};
-
-// ==========================================
-// API クライアント
-// ==========================================
-const TOKEN_KEY = 'nanobase_token';
-
-async function apiFetch<T>(url: string, options: RequestInit = {}): Promise<{ success: boolean; data?: T; error?: { message: string } }> {
-  const token = localStorage.getItem(TOKEN_KEY);
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'X-Project-Id': API_CONFIG.projectId,
-    ...(options.headers as Record<string, string>),
-  };
-  if (token) headers['Authorization'] = `Bearer ${token}`;
-
-  const response = await fetch(url, { ...options, headers });
-  return response.json();
-}
-
-// Auth API
-const auth = {
-  async signup(email: string, password: string) {
-    const result = await apiFetch<{ token: string; user: { id: string; email: string } }>(
-      `${API_CONFIG.easyauthUrl}/api/v1/auth/signup-email`,
-      { method: 'POST', body: JSON.stringify({ email, password }) }
-    );
-    if (result.success && result.data) localStorage.setItem(TOKEN_KEY, result.data.token);
-    return result;
-  },
-  async login(email: string, password: string) {
-    const result = await apiFetch<{ token: string; user: { id: string; email: string } }>(
-      `${API_CONFIG.easyauthUrl}/api/v1/auth/login-email`,
-      { method: 'POST', body: JSON.stringify({ email, password }) }
-    );
-    if (result.success && result.data) localStorage.setItem(TOKEN_KEY, result.data.token);
-    return result;
-  },
-  async me() {
-    return apiFetch<{ id: string; email: string }>(`${API_CONFIG.easyauthUrl}/api/v1/auth/me`);
-  },
-  async logout() {
-    localStorage.removeItem(TOKEN_KEY);
-    await apiFetch(`${API_CONFIG.easyauthUrl}/api/v1/auth/logout`, { method: 'POST' });
+  urls: {
+    easyauth: import.meta.env.VITE_EASYAUTH_URL,
+    pocketdata: import.meta.env.VITE_POCKETDATA_URL,
+    monitor: import.meta.env.VITE_MONITOR_URL,
   },
-  isLoggedIn() {
-    return !!localStorage.getItem(TOKEN_KEY);
-  },
-};
+});
 
-// Data API
-const data = {
-  async list(collection: string) {
-    return apiFetch<Array<{ id: string; data: Record<string, unknown> }>>(
-      `${API_CONFIG.pocketdataUrl}/api/v1/data/${collection}`
-    );
-  },
-  async create(collection: string, record: Record<string, unknown>) {
-    return apiFetch<{ id: string; data: Record<string, unknown> }>(`${API_CONFIG.pocketdataUrl}/api/v1/data/${collection}`, {
-      method: 'POST',
-      body: JSON.stringify(record),
-    });
-  },
-  async update(collection: string, id: string, record: Record<string, unknown>) {
-    return apiFetch(`${API_CONFIG.pocketdataUrl}/api/v1/data/${collection}/${id}`, {
-      method: 'PATCH',
-      body: JSON.stringify(record),
-    });
-  },
-};
+// スコアを検証するサービス（services/game-verifier）
+const VERIFIER_URL = import.meta.env.VITE_GAME_VERIFIER_URL || 'http://localhost:3209';
 
-// Monitor API
-function trackEvent(name: string, properties?: Record<string, unknown>) {
-  apiFetch(`${API_CONFIG.monitorUrl}/api/v1/log/event`, {
-    method: 'POST',
-    body: JSON.stringify({ name, properties }),
-  }).catch(console.error);
-}
+// 残り時間の表示を更新する間隔
+const TICK_MS = 100;
+
+// ==========================================
+// コレクション定義
+// ==========================================
+// server-write ルールなので、書き込めるのはサービス用トークンを持つ検証サービスだけ（プレイヤーは読み取りのみ）
+const leaderboardCollection = defineCollection('leaderboard', s.object({
+  playerId: s.string(),
+  playerName: s.string(),
+  score: s.number(),
+  // 検証サービス導入前にアプリから書き込まれたスコアには無い
+  verified: s.optional(s.boolean()),
+  sessionId: s.optional(s.string()),
+  createdAt: s.string(),
+}));
+
+type LeaderboardEntry = CollectionRecord<typeof leaderboardCollection>;
 
 // ==========================================
 // スタイル
@@ -110,17 +59,13 @@ const styles = {
   tab: { padding: '10px 20px', border: 'none', borderRadius: '4px', cursor: 'pointer', background: '#e9ecef' },
   tabActive: { background: '#0066cc', color: 'white' },
   error: { color: 'red', marginBottom: '10px' },
+  rejected: { marginTop: '10px', color: '#dc3545' },
 };
 
 // ==========================================
 // コンポーネント
 // ==========================================
-interface LeaderboardEntry {
-  id: string;
-  data: { playerId: string; playerName: string; score: number; createdAt: string };
-}
-
-function AuthForm({ onLogin }: { onLogin: () => void }) {
+function AuthForm({ onLogin, notice }: { onLogin: () => void; notice?: string }) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isSignup, setIsSignup] = useState(false);
@@ -133,7 +78,7 @@ function AuthForm({ onLogin }: { onLogin: () => void }) {
     try {
       const result = isSignup ? await auth.signup(email, password) : await auth.login(email, password);
       if (result.success) {
-        trackEvent(isSignup ? 'player_signup' : 'player_login', { email });
+        monitor.logEvent(isSignup ? 'player_signup' : 'player_login', { email });
         onLogin();
       } else {
         setError(result.error?.message || 'エラーが発生しました');
@@ -146,6 +91,7 @@ function AuthForm({ onLogin }: { onLogin: () => void }) {
   return (
     <div style={styles.card}>
       <h2>{isSignup ? '新規登録' : 'ログイン'}</h2>
+      {notice && !error && <p style={styles.error}>{notice}</p>}
       {error && <p style={styles.error}>{error}</p>}
       <form onSubmit={handleSubmit} style={styles.form}>
         <input type="email" placeholder="メールアドレス" value={email} onChange={e => setEmail(e.target.value)} style={styles.input} required />
@@ -161,78 +107,168 @@ function AuthForm({ onLogin }: { onLogin: () => void }) {
   );
 }
 
+interface GameSession {
+  sessionId: string;
+  // performance.now() 基準の開始時刻
+  startedAt: number;
+  durationMs: number;
+  seq: number;
+  pendingClicks: number[];
+  // バッチを順番どおりに送るための直前の送信
+  sending: Promise<boolean>;
+}
+
 function ClickerGame({ user }: { user: { id: string; email: string } }) {
   const [score, setScore] = useState(0);
-  const [timeLeft, setTimeLeft] = useState(10);
+  const [timeLeft, setTimeLeft] = useState(GAME_DURATION_MS / 1000);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [result, setResult] = useState<FinishSessionResponse | null>(null);
+  const [error, setError] = useState('');
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [activeTab, setActiveTab] = useState<'game' | 'leaderboard'>('game');
   const [myBest, setMyBest] = useState(0);
+  const sessionRef = useRef<GameSession | null>(null);
 
   useEffect(() => {
     loadLeaderboard();
   }, []);
 
+  // 1秒ごとの setTimeout を重ねると遅れがたまるので、開始時刻からの経過時間で終了を判定する
   useEffect(() => {
-    let timer: number;
-    if (isPlaying && timeLeft > 0) {
-      timer = window.setTimeout(() => setTimeLeft(timeLeft - 1), 1000);
-    } else if (timeLeft === 0 && isPlaying) {
-      endGame();
-    }
-    return () => clearTimeout(timer);
-  }, [isPlaying, timeLeft]);
+    if (!isPlaying) return;
+    const timer = window.setInterval(() => {
+      const session = sessionRef.current;
+      if (!session) return;
+      const remaining = session.durationMs - (performance.now() - session.startedAt);
+      if (remaining <= 0) {
+        clearInterval(timer);
+        setTimeLeft(0);
+        endGame();
+      } else {
+        setTimeLeft(Math.ceil(remaining / 1000));
+      }
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying]);
 
-  const loadLeaderboard = async () => {
-    const result = await data.list('leaderboard');
-    if (result.success && result.data) {
-      const sorted = (result.data as LeaderboardEntry[])
-        .sort((a, b) => b.data.score - a.data.score)
-        .slice(0, 10);
-      setLeaderboard(sorted);
+  // プレイ中は一定間隔でクリックを送る
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = window.setInterval(() => flushClicks(), BATCH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying]);
 
+  const loadLeaderboard = async () => {
+    // 検証サービス導入前にアプリから書き込まれた古いスコアを除く
+    const [top, mine] = await Promise.all([
+      data.list(leaderboardCollection, { where: { verified: true }, orderBy: { field: 'score', direction: 'desc' }, limit: 10 }),
       // 自己ベスト取得
-      const myScores = result.data.filter((e: { data: Record<string, unknown> }) => e.data.playerId === user.id);
-      if (myScores.length > 0) {
-        const best = Math.max(...myScores.map((e: { data: Record<string, unknown> }) => e.data.score as number));
-        setMyBest(best);
-      }
+      data.list(leaderboardCollection, { where: { playerId: user.id, verified: true }, orderBy: { field: 'score', direction: 'desc' }, limit: 1 }),
+    ]);
+    if (top.success && top.data) {
+      setLeaderboard(top.data);
     }
+    if (mine.success && mine.data && mine.data.length > 0) {
+      setMyBest(mine.data[0].data.score);
+    }
+  };
+
+  // 送れなかったバッチがあると、それ以降の順序番号がそろわずクリックを数えてもらえないので、その回は打ち切る
+  // （少ないスコアのまま確定させず、プレイヤーにやり直してもらう）
+  const abortGame = (session: GameSession, message: string) => {
+    if (sessionRef.current !== session) return;
+    sessionRef.current = null;
+    setIsPlaying(false);
+    setError(`クリックを送信できなかったため、ゲームを中断しました（${message}）`);
   };
 
-  const startGame = () => {
+  // たまったクリックを送る。前のバッチの送信を待ってから送る
+  const flushClicks = () => {
+    const session = sessionRef.current;
+    if (!session) return Promise.resolve(false);
+    const clicks = session.pendingClicks;
+    if (clicks.length === 0) return session.sending;
+    session.pendingClicks = [];
+
+    session.sending = session.sending.then(async ok => {
+      if (!ok) return false;
+      const seq = session.seq++;
+      const result = await apiFetch(`${VERIFIER_URL}/api/v1/game/sessions/${session.sessionId}/clicks`, {
+        method: 'POST',
+        body: JSON.stringify({ seq, clicks }),
+      });
+      if (!result.success) {
+        monitor.logError(result.error || 'Send clicks error', { context: 'send_clicks', seq });
+        abortGame(session, result.error?.message || 'エラーが発生しました');
+      }
+      return result.success;
+    });
+    return session.sending;
+  };
+
+  const startGame = async () => {
+    setError('');
+    setResult(null);
+    setIsStarting(true);
+    const result = await apiFetch<StartSessionResponse>(`${VERIFIER_URL}/api/v1/game/sessions`, { method: 'POST' });
+    setIsStarting(false);
+    if (!result.success || !result.data) {
+      setError(result.error?.message || 'ゲームを開始できませんでした');
+      return;
+    }
+
+    sessionRef.current = {
+      sessionId: result.data.sessionId,
+      startedAt: performance.now(),
+      durationMs: result.data.durationMs,
+      seq: 0,
+      pendingClicks: [],
+      sending: Promise.resolve(true),
+    };
     setScore(0);
-    setTimeLeft(10);
+    setTimeLeft(result.data.durationMs / 1000);
     setIsPlaying(true);
-    trackEvent('game_started');
+    monitor.logEvent('game_started', { sessionId: result.data.sessionId });
   };
 
   const endGame = async () => {
     setIsPlaying(false);
+    const session = sessionRef.current;
+    if (!session) return;
+
+    // 残りのクリックを送ってから、サーバーにスコアを確定してもらう
+    // 送れなかったクリックがあれば、打ち切ったことを表示済みなので確定しない
+    if (!(await flushClicks())) return;
+    sessionRef.current = null;
+
+    const result = await apiFetch<FinishSessionResponse>(`${VERIFIER_URL}/api/v1/game/sessions/${session.sessionId}/finish`, { method: 'POST' });
+    if (!result.success || !result.data) {
+      setError(result.error?.message || 'スコアを送信できませんでした');
+      return;
+    }
 
-    // スコア送信
-    const playerName = user.email.split('@')[0];
-    await data.create('leaderboard', {
-      playerId: user.id,
-      playerName,
-      score,
-      createdAt: new Date().toISOString(),
-    });
-
-    trackEvent('game_ended', { score });
+    const { score: verifiedScore, verified } = result.data;
+    setResult(result.data);
+    setScore(verifiedScore);
+    monitor.logEvent('game_ended', { score: verifiedScore, verified, sessionId: session.sessionId });
 
-    if (score > myBest) {
-      setMyBest(score);
-      trackEvent('new_high_score', { score, previousBest: myBest });
+    if (verified && verifiedScore > myBest) {
+      setMyBest(verifiedScore);
+      monitor.logEvent('new_high_score', { score: verifiedScore, previousBest: myBest });
     }
 
     loadLeaderboard();
   };
 
   const handleClick = () => {
-    if (isPlaying) {
-      setScore(s => s + 1);
-    }
+    const session = sessionRef.current;
+    if (!isPlaying || !session) return;
+    const elapsed = Math.floor(performance.now() - session.startedAt);
+    // 制限時間を過ぎたクリックはサーバーでセッションごと拒否されるので、数えずに捨てる
+    if (elapsed >= session.durationMs) return;
+    session.pendingClicks.push(elapsed);
+    setScore(s => s + 1);
   };
 
   return (
@@ -269,14 +305,17 @@ function ClickerGame({ user }: { user: { id: string; email: string } }) {
               </>
             ) : (
               <>
-                <button onClick={startGame} style={{ ...styles.clickButton, background: '#0066cc' }}>
-                  スタート
+                <button onClick={startGame} disabled={isStarting} style={{ ...styles.clickButton, background: '#0066cc' }}>
+                  {isStarting ? '準備中...' : 'スタート'}
                 </button>
-                {score > 0 && (
+                {error && <p style={styles.error}>{error}</p>}
+                {result && (result.verified ? (
                   <p style={{ marginTop: '10px' }}>
-                    {score > myBest ? '🎉 新記録！' : `スコア: ${score}`}
+                    {result.score >= myBest && result.score > 0 ? '🎉 新記録！' : `スコア: ${result.score}`}
                   </p>
-                )}
+                ) : (
+                  <p style={styles.rejected}>スコアを検証できませんでした（{result.reason}）</p>
+                ))}
               </>
             )}
 
@@ -318,6 +357,15 @@ function ClickerGame({ user }: { user: { id: string; email: string } }) {
 function App() {
   const [user, setUser] = useState<{ id: string; email: string } | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
+
+  useEffect(() => {
+    // トークンを更新できなかったらログイン画面に戻す
+    return auth.onSessionExpired(() => {
+      setUser(null);
+      setSessionExpired(true);
+    });
+  }, []);
 
   useEffect(() => {
     const init = async () => {
@@ -325,7 +373,7 @@ function App() {
         const result = await auth.me();
         if (result.success && result.data) {
           setUser(result.data);
-          trackEvent('app_loaded', { userId: result.data.id });
+          monitor.logEvent('app_loaded', { userId: result.data.id });
         }
       }
       setLoading(false);
@@ -334,7 +382,7 @@ function App() {
   }, []);
 
   const handleLogout = async () => {
-    trackEvent('player_logout');
+    monitor.logEvent('player_logout');
     await auth.logout();
     setUser(null);
   };
@@ -354,10 +402,16 @@ function App() {
         )}
       </header>
       {!user ? (
-        <AuthForm onLogin={async () => {
-          const result = await auth.me();
-          if (result.success && result.data) setUser(result.data);
-        }} />
+        <AuthForm
+          notice={sessionExpired ? 'セッションの有効期限が切れました。再度ログインしてください' : undefined}
+          onLogin={async () => {
+            const result = await auth.me();
+            if (result.success && result.data) {
+              setSessionExpired(false);
+              setUser(result.data);
+            }
+          }}
+        />
       ) : (
         <ClickerGame user={user} />
       )}
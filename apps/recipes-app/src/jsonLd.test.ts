@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { exportJson, exportMarkdown, parseImport } from './jsonLd';
+import type { RecipeContent } from './recipe';
+
+const curry: RecipeContent = {
+  title: 'チキンカレー',
+  ingredients: [
+    { name: '鶏もも肉', quantity: 300, unit: 'g' },
+    { name: '醤油', quantity: 1.5, unit: '大さじ' },
+    { name: '塩', unit: '少々' },
+    { name: 'バター', unit: 'g' },
+    { name: 'ローリエ' },
+  ],
+  servings: 1.5,
+  instructions: '玉ねぎを炒める\n鶏肉を加えて煮込む',
+  tags: ['洋食', '定番'],
+  photos: [{ url: 'https://example.com/curry.jpg', thumbnailUrl: 'https://example.com/curry-thumb.jpg', width: 1600, height: 1200 }],
+};
+
+const miso: RecipeContent = {
+  title: '味噌汁 <簡単>',
+  ingredients: [{ name: '味噌', quantity: 2, unit: '大さじ' }],
+  servings: 2,
+  instructions: 'だしを温めて味噌を溶く',
+  tags: [],
+  photos: [],
+};
+
+describe('書き出したファイルの再インポート', () => {
+  it('JSON（1件）から元のレシピに戻る', () => {
+    expect(parseImport(exportJson([curry]))).toEqual({ ok: true, value: [curry] });
+  });
+
+  it('JSON（複数件）から元のレシピに戻る', () => {
+    expect(parseImport(exportJson([curry, miso]))).toEqual({ ok: true, value: [curry, miso] });
+  });
+
+  it('Markdownに埋め込んだJSON-LDから元のレシピに戻る', () => {
+    const markdown = exportMarkdown([curry, miso]);
+    expect(markdown).toContain('- 人数: 1.5人分');
+    expect(parseImport(markdown)).toEqual({ ok: true, value: [curry, miso] });
+  });
+});
+
+describe('parseImport', () => {
+  it('レシピサイトのHTMLから @graph の中のレシピを取り出す', () => {
+    const html = `<html><head><script type="application/ld+json">${JSON.stringify({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'WebPage', name: 'ページ' },
+        {
+          '@type': ['Recipe'],
+          name: '肉じゃが',
+          recipeYield: ['4', '4 servings'],
+          recipeIngredient: ['じゃがいも 3個', '牛肉 200g'],
+          recipeInstructions: [
+            { '@type': 'HowToSection', name: '下ごしらえ', itemListElement: [{ '@type': 'HowToStep', text: '皮をむく' }] },
+            { '@type': 'HowToStep', text: '煮る' },
+          ],
+          recipeCategory: '和食',
+          image: 'https://example.com/nikujaga.jpg',
+        },
+      ],
+    })}</script></head></html>`;
+    expect(parseImport(html)).toEqual({
+      ok: true,
+      value: [{
+        title: '肉じゃが',
+        ingredients: [{ name: 'じゃがいも', quantity: 3, unit: '個' }, { name: '牛肉', quantity: 200, unit: 'g' }],
+        servings: 4,
+        instructions: '下ごしらえ\n皮をむく\n煮る',
+        tags: ['和食'],
+        photos: [{ url: 'https://example.com/nikujaga.jpg', thumbnailUrl: 'https://example.com/nikujaga.jpg', width: 0, height: 0 }],
+      }],
+    });
+  });
+
+  it('小数の人数はそのまま残す', () => {
+    const result = parseImport(JSON.stringify({ '@type': 'Recipe', name: 'a', recipeYield: 2.5 }));
+    expect(result.ok && result.value[0].servings).toBe(2.5);
+  });
+
+  it('人数が読み取れなければ既定の人数にする', () => {
+    const result = parseImport(JSON.stringify({ '@type': 'Recipe', name: 'a', recipeYield: '適量' }));
+    expect(result.ok && result.value[0].servings).toBe(2);
+  });
+
+  it('JSON-LDがなければエラーにする', () => {
+    expect(parseImport('<html></html>')).toEqual({ ok: false, issues: ['JSON-LD（schema.org の Recipe）が見つかりません'] });
+  });
+
+  it('壊れたJSONはエラーにする', () => {
+    expect(parseImport('{"@type": ')).toEqual({ ok: false, issues: ['JSONとして読み取れませんでした'] });
+  });
+
+  it('Recipe を含まないJSONはエラーにする', () => {
+    expect(parseImport(JSON.stringify({ '@type': 'WebPage' }))).toEqual({ ok: false, issues: ['レシピ（@type: Recipe）が含まれていません'] });
+  });
+});
@@ -0,0 +1,129 @@
+import type { ParseResult } from 'nanobase-client';
+import { DEFAULT_SERVINGS, formatIngredient, parseIngredientLine, type Photo, type RecipeContent } from './recipe';
+import { parseTags } from './search';
+
+// ==========================================
+// schema.org Recipe の JSON-LD（インポート・エクスポート）
+// ==========================================
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown) => (typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '');
+
+// 配列でも単独の値でも、配列として扱う
+const asList = (value: unknown): unknown[] => (value === undefined || value === null ? [] : Array.isArray(value) ? value : [value]);
+
+// @graph や配列の中から @type が Recipe のノードを探す
+function findRecipeNodes(node: unknown): JsonObject[] {
+  if (Array.isArray(node)) return node.flatMap(findRecipeNodes);
+  if (!isObject(node)) return [];
+  if (asList(node['@type']).includes('Recipe')) return [node];
+  return findRecipeNodes(node['@graph']);
+}
+
+// 文字列・HowToStep・HowToSection のどれでも、1行1手順のテキストにする
+function instructionsText(value: unknown): string {
+  if (Array.isArray(value)) return value.map(instructionsText).filter(Boolean).join('\n');
+  if (isObject(value)) {
+    if (value.itemListElement) return [asText(value.name), instructionsText(value.itemListElement)].filter(Boolean).join('\n');
+    return asText(value.text) || asText(value.name);
+  }
+  return asText(value);
+}
+
+// "4人分" "4 servings" ["4", "4 servings"] "1.5人分" などから人数を取り出す（小数はそのまま残す）
+function parseYield(value: unknown) {
+  const match = asList(value).map(asText).join(' ').normalize('NFKC').match(/\d+(?:\.\d+)?/);
+  const servings = match ? Number(match[0]) : 0;
+  return servings > 0 ? servings : DEFAULT_SERVINGS;
+}
+
+function parsePhotos(value: unknown): Photo[] {
+  return asList(value).flatMap(image => {
+    if (typeof image === 'string') return [{ url: image, thumbnailUrl: image, width: 0, height: 0 }];
+    if (!isObject(image) || !asText(image.url)) return [];
+    const url = asText(image.url);
+    return [{ url, thumbnailUrl: asText(image.thumbnailUrl) || url, width: Number(image.width) || 0, height: Number(image.height) || 0 }];
+  });
+}
+
+function fromJsonLd(node: JsonObject): RecipeContent {
+  const tags = [node.keywords, node.recipeCategory, node.recipeCuisine].flatMap(asList).map(asText).join(',');
+  return {
+    title: asText(node.name) || '無題のレシピ',
+    ingredients: asList(node.recipeIngredient ?? node.ingredients).map(asText).filter(Boolean).map(parseIngredientLine),
+    servings: parseYield(node.recipeYield),
+    instructions: instructionsText(node.recipeInstructions),
+    tags: parseTags(tags),
+    photos: parsePhotos(node.image),
+  };
+}
+
+function toJsonLd(recipe: RecipeContent): JsonObject {
+  return {
+    '@type': 'Recipe',
+    name: recipe.title,
+    recipeYield: `${recipe.servings}人分`,
+    recipeIngredient: recipe.ingredients.map(ingredient => formatIngredient(ingredient)),
+    recipeInstructions: recipe.instructions,
+    ...(recipe.tags && recipe.tags.length > 0 ? { keywords: recipe.tags.join(', ') } : {}),
+    ...(recipe.photos && recipe.photos.length > 0
+      ? {
+        image: recipe.photos.map(({ url, thumbnailUrl, width, height }) => ({ '@type': 'ImageObject', url, thumbnailUrl, width, height })),
+      }
+      : {}),
+  };
+}
+
+const JSON_LD_CONTEXT = 'https://schema.org';
+
+export function exportJson(recipes: RecipeContent[]) {
+  const document = recipes.length === 1
+    ? { '@context': JSON_LD_CONTEXT, ...toJsonLd(recipes[0]) }
+    : { '@context': JSON_LD_CONTEXT, '@graph': recipes.map(toJsonLd) };
+  return JSON.stringify(document, null, 2);
+}
+
+// Markdownには読みやすい本文と、インポート用のJSON-LDを埋め込む（表示されないscriptタグ）
+export function exportMarkdown(recipes: RecipeContent[]) {
+  return recipes.map(recipe => {
+    const jsonLd = JSON.stringify({ '@context': JSON_LD_CONTEXT, ...toJsonLd(recipe) }, null, 2).replace(/</g, '\\u003c');
+    return [
+      `# ${recipe.title}`,
+      '',
+      ...(recipe.photos || []).map(photo => `![${recipe.title}](${photo.url})`),
+      `- 人数: ${recipe.servings}人分`,
+      ...(recipe.tags && recipe.tags.length > 0 ? [`- タグ: ${recipe.tags.join(', ')}`] : []),
+      '',
+      '## 材料',
+      '',
+      ...recipe.ingredients.map(ingredient => `- ${formatIngredient(ingredient)}`),
+      '',
+      '## 作り方',
+      '',
+      recipe.instructions,
+      '',
+      `<script type="application/ld+json">\n${jsonLd}\n</script>`,
+    ].join('\n');
+  }).join('\n\n---\n\n') + '\n';
+}
+
+const JSON_LD_SCRIPT = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+// JSON・HTML・このアプリが書き出したMarkdownから、レシピを取り出す
+export function parseImport(text: string): ParseResult<RecipeContent[]> {
+  const trimmed = text.trim();
+  const sources = /^[[{]/.test(trimmed) ? [trimmed] : Array.from(trimmed.matchAll(JSON_LD_SCRIPT), match => match[1]);
+  if (sources.length === 0) return { ok: false, issues: ['JSON-LD（schema.org の Recipe）が見つかりません'] };
+
+  const recipes: RecipeContent[] = [];
+  for (const source of sources) {
+    try {
+      recipes.push(...findRecipeNodes(JSON.parse(source)).map(fromJsonLd));
+    } catch {
+      return { ok: false, issues: ['JSONとして読み取れませんでした'] };
+    }
+  }
+  return recipes.length > 0 ? { ok: true, value: recipes } : { ok: false, issues: ['レシピ（@type: Recipe）が含まれていません'] };
+}
@@ -1,98 +1,137 @@
 import React, { useState, useEffect } from 'react';
 import ReactDOM from 'react-dom/client';
+import { createClient, downloadFile, isLocalId, resizeImage, type ApiResult } from 'nanobase-client';
+import {
+  DEFAULT_SERVINGS,
+  formatIngredient,
+  formatQuantity,
+  parseIngredients,
+  recipesCollection,
+  sharedRecipesCollection,
+  type Photo,
+  type Recipe,
+  type RecipeContent,
+  type SharedRecipe,
+} from './recipe';
+import { exportJson, exportMarkdown, parseImport } from './jsonLd';
+import { SORT_LABELS, collectTags, filterRecipes, formatSearchState, parseSearchState, parseTags, type SearchState, type SortOrder } from './search';
 
 // API設定（環境変数で上書き可能）
-const API_CONFIG = {
-  easyauthUrl: import.meta.env.VITE_EASYAUTH_URL || 'http://localhost:3201',
-  pocketdataUrl: import.meta.env.VITE_POCKETDATA_URL || 'http://localhost:3202',
-  monitorUrl: import.meta.env.VITE_MONITOR_URL || 'http://localhost:3204',
+const { auth, data, files, monitor } = createClient({
   projectId: import.meta.env.VITE_PROJECT_ID || 'recipes-app',
-};
+  // オフライン中の変更は端末に保存して、再接続時に送信する
+  offline: true,
+  urls: {
+    easyauth: import.meta.env.VITE_EASYAUTH_URL,
+    pocketdata: import.meta.env.VITE_POCKETDATA_URL,
+    monitor: import.meta.env.VITE_MONITOR_URL,
+  },
+});
 
 // ==========================================
-// API クライアント（シンプル実装）
+// 写真のアップロード
 // ==========================================
-const TOKEN_KEY = 'nanobase_token';
-
-async function apiFetch<T>(url: string, options: RequestInit = {}): Promise<{ success: boolean; data?: T; error?: { message: string } }> {
-  const token = localStorage.getItem(TOKEN_KEY);
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'X-Project-Id': API_CONFIG.projectId,
-    ...(options.headers as Record<string, string>),
+const PHOTO_MAX_SIZE = 1600;
+// base64でレコードに埋め込む場合は、上限に収まるよう小さくする
+const INLINE_PHOTO_MAX_SIZE = 800;
+const THUMBNAIL_MAX_SIZE = 320;
+
+// 縮小した写真とサムネイルをアップロードする。進捗は 0〜1 で通知する
+async function uploadPhoto(file: File, onProgress: (ratio: number) => void): Promise<ApiResult<Photo>> {
+  const thumbnail = await resizeImage(file, { maxSize: THUMBNAIL_MAX_SIZE, quality: 0.7 });
+  const thumbnailResult = await files.upload(thumbnail.blob, {
+    onProgress: (loaded, total) => onProgress((loaded / total) * 0.2),
+  });
+  if (!thumbnailResult.success || !thumbnailResult.data) return { success: false, error: thumbnailResult.error };
+
+  // サムネイルが埋め込みになったなら、blobエンドポイントは使えない
+  const inline = !thumbnailResult.data.id;
+  const photo = await resizeImage(file, { maxSize: inline ? INLINE_PHOTO_MAX_SIZE : PHOTO_MAX_SIZE, quality: inline ? 0.7 : 0.85 });
+  const photoResult = await files.upload(photo.blob, {
+    onProgress: (loaded, total) => onProgress(0.2 + (loaded / total) * 0.8),
+  });
+  if (!photoResult.success || !photoResult.data) {
+    await files.delete(thumbnailResult.data);
+    return { success: false, error: photoResult.error };
+  }
+
+  return {
+    success: true,
+    data: {
+      url: photoResult.data.url,
+      thumbnailUrl: thumbnailResult.data.url,
+      fileId: photoResult.data.id,
+      thumbnailFileId: thumbnailResult.data.id,
+      width: photo.width,
+      height: photo.height,
+    },
   };
-  if (token) headers['Authorization'] = `Bearer ${token}`;
+}
 
-  const response = await fetch(url, { ...options, headers });
-  return response.json();
+// レシピや写真を消したときに、保存済みのファイルも消す
+async function deletePhotoFiles(photos: Photo[]) {
+  await Promise.all(photos.flatMap(photo => [files.delete({ id: photo.fileId }), files.delete({ id: photo.thumbnailFileId })]));
 }
 
-// Auth API
-const auth = {
-  async signup(email: string, password: string) {
-    const result = await apiFetch<{ token: string; user: { id: string; email: string } }>(
-      `${API_CONFIG.easyauthUrl}/api/v1/auth/signup-email`,
-      { method: 'POST', body: JSON.stringify({ email, password }) }
-    );
-    if (result.success && result.data) localStorage.setItem(TOKEN_KEY, result.data.token);
-    return result;
-  },
-  async login(email: string, password: string) {
-    const result = await apiFetch<{ token: string; user: { id: string; email: string } }>(
-      `${API_CONFIG.easyauthUrl}/api/v1/auth/login-email`,
-      { method: 'POST', body: JSON.stringify({ email, password }) }
-    );
-    if (result.success && result.data) localStorage.setItem(TOKEN_KEY, result.data.token);
-    return result;
-  },
-  async me() {
-    return apiFetch<{ id: string; email: string }>(`${API_CONFIG.easyauthUrl}/api/v1/auth/me`);
-  },
-  async logout() {
-    localStorage.removeItem(TOKEN_KEY);
-    await apiFetch(`${API_CONFIG.easyauthUrl}/api/v1/auth/logout`, { method: 'POST' });
-  },
-  isLoggedIn() {
-    return !!localStorage.getItem(TOKEN_KEY);
-  },
-};
+// 読み込み直すと別のオブジェクトになるので、ファイルID（埋め込みならURL）で同じ写真か判定する
+const photoKey = (photo: Photo) => photo.fileId || photo.url;
+const includesPhoto = (photos: Photo[], photo: Photo) => photos.some(p => photoKey(p) === photoKey(photo));
 
-// Data API
-const data = {
-  async list(collection: string) {
-    return apiFetch<Array<{ id: string; data: Record<string, unknown> }>>(
-      `${API_CONFIG.pocketdataUrl}/api/v1/data/${collection}`
-    );
-  },
-  async create(collection: string, record: Record<string, unknown>) {
-    return apiFetch(`${API_CONFIG.pocketdataUrl}/api/v1/data/${collection}`, {
-      method: 'POST',
-      body: JSON.stringify(record),
-    });
-  },
-  async delete(collection: string, id: string) {
-    return apiFetch(`${API_CONFIG.pocketdataUrl}/api/v1/data/${collection}/${id}`, {
-      method: 'DELETE',
-    });
-  },
-};
+// ==========================================
+// URL（?q=...&tag=...&sort=...）
+// ==========================================
+function useSearchState(): [SearchState, (patch: Partial<SearchState>) => void] {
+  const [search, setSearch] = useState(() => parseSearchState(window.location.search));
 
-// Monitor API
-function logEvent(name: string, properties?: Record<string, unknown>) {
-  apiFetch(`${API_CONFIG.monitorUrl}/api/v1/log/event`, {
-    method: 'POST',
-    body: JSON.stringify({ name, properties }),
-  }).catch(console.error);
+  useEffect(() => {
+    const handlePopState = () => setSearch(parseSearchState(window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const update = (patch: Partial<SearchState>) => {
+    const next = { ...search, ...patch };
+    const query = formatSearchState(next);
+    // 入力のたびに履歴が増えないよう、キーワードの変更は置き換える
+    const url = `${window.location.pathname}${query ? `?${query}` : ''}`;
+    if (patch.query !== undefined) window.history.replaceState(null, '', url);
+    else window.history.pushState(null, '', url);
+    setSearch(next);
+  };
+
+  return [search, update];
+}
+
+// ==========================================
+// 公開ページ（/shared/:shareId）
+// ==========================================
+function parseSharedId() {
+  const match = window.location.pathname.match(/^\/shared\/([^/]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+// レシピ本体の項目だけを取り出す（公開状態などは含めない。公開用のコピーや書き出しに使う）
+function toRecipeContent(recipe: RecipeContent): RecipeContent {
+  const { title, ingredients, servings, instructions, tags, photos } = recipe;
+  return { title, ingredients, servings, instructions, tags, photos };
 }
 
-function logError(err: Error | string, context?: Record<string, unknown>) {
-  const message = err instanceof Error ? err.message : err;
-  apiFetch(`${API_CONFIG.monitorUrl}/api/v1/log/error`, {
-    method: 'POST',
-    body: JSON.stringify({ message, context }),
-  }).catch(console.error);
+// 公開用のコピー。/shared/ のページからも写真を表示できるよう、URLを絶対URLにしておく
+function toSharedContent(recipe: RecipeContent): RecipeContent {
+  const content = toRecipeContent(recipe);
+  if (!content.photos) return content;
+  return {
+    ...content,
+    photos: content.photos.map(photo => ({ ...photo, url: files.resolveUrl(photo.url), thumbnailUrl: files.resolveUrl(photo.thumbnailUrl) })),
+  };
 }
 
+// ==========================================
+// インポート・エクスポート
+// ==========================================
+// ファイル名に使えない文字を除く
+const safeFilename = (name: string) => name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'recipe';
+
 // ==========================================
 // スタイル
 // ==========================================
@@ -105,20 +144,38 @@ const styles = {
   textarea: { padding: '10px', border: '1px solid #ddd', borderRadius: '4px', fontSize: '16px', minHeight: '100px' },
   button: { padding: '10px 20px', background: '#0066cc', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '16px' },
   buttonSecondary: { padding: '10px 20px', background: '#666', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '16px' },
-  recipeItem: { borderBottom: '1px solid #eee', paddingBottom: '15px', marginBottom: '15px' },
   recipeTitle: { fontSize: '1.2rem', fontWeight: 'bold', marginBottom: '5px' },
   error: { color: 'red', marginBottom: '10px' },
+  syncStatus: { fontSize: '12px', color: '#666', marginTop: '8px' },
+  servingsLabel: { display: 'flex', alignItems: 'center', gap: '8px' },
+  servingsButton: { width: '28px', height: '28px', border: '1px solid #ddd', borderRadius: '50%', background: 'white', cursor: 'pointer' },
+  ingredientTable: { borderCollapse: 'collapse' as const, fontSize: '14px' },
+  ingredientCell: { border: '1px solid #eee', padding: '4px 8px', textAlign: 'left' as const },
+  ingredientList: { background: '#f5f5f5', padding: '10px 10px 10px 30px', fontSize: '14px' },
+  searchBar: { display: 'flex', gap: '10px', marginBottom: '10px' },
+  chips: { display: 'flex', flexWrap: 'wrap' as const, gap: '6px', marginBottom: '15px' },
+  chip: { padding: '4px 12px', border: '1px solid #ddd', borderRadius: '16px', background: 'white', cursor: 'pointer', fontSize: '13px' },
+  chipActive: { background: '#0066cc', borderColor: '#0066cc', color: 'white' },
+  tag: { display: 'inline-block', padding: '2px 8px', marginRight: '6px', borderRadius: '10px', background: '#e9ecef', fontSize: '12px' },
+  grid: { display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))', gap: '15px' },
+  gridItem: { border: '1px solid #eee', borderRadius: '8px', overflow: 'hidden', cursor: 'pointer', background: 'white', textAlign: 'left' as const, padding: 0 },
+  thumbnail: { width: '100%', aspectRatio: '4 / 3', objectFit: 'cover' as const, display: 'block', background: '#f5f5f5' },
+  thumbnailPlaceholder: { width: '100%', aspectRatio: '4 / 3', display: 'flex', alignItems: 'center', justifyContent: 'center', background: '#f5f5f5', fontSize: '40px' },
+  gridItemBody: { padding: '10px' },
+  photoStrip: { display: 'flex', flexWrap: 'wrap' as const, gap: '8px' },
+  photoThumb: { width: '80px', height: '60px', objectFit: 'cover' as const, borderRadius: '4px', cursor: 'pointer', border: '2px solid transparent' },
+  photoThumbActive: { borderColor: '#0066cc' },
+  photoFull: { width: '100%', maxHeight: '480px', objectFit: 'contain' as const, borderRadius: '8px', background: '#f5f5f5', marginBottom: '10px' },
+  photoRemove: { position: 'absolute' as const, top: '-6px', right: '-6px', width: '20px', height: '20px', borderRadius: '50%', border: 'none', background: '#333', color: 'white', cursor: 'pointer', fontSize: '12px', lineHeight: '20px', padding: 0 },
+  progress: { height: '6px', background: '#e9ecef', borderRadius: '3px', overflow: 'hidden' },
+  progressBar: { height: '100%', background: '#0066cc', transition: 'width 0.2s' },
+  sharePanel: { marginTop: '20px', paddingTop: '15px', borderTop: '1px solid #eee' },
 };
 
 // ==========================================
 // コンポーネント
 // ==========================================
-interface Recipe {
-  id: string;
-  data: { title: string; ingredients: string; instructions: string; userId: string };
-}
-
-function AuthForm({ onLogin }: { onLogin: () => void }) {
+function AuthForm({ onLogin, notice }: { onLogin: () => void; notice?: string }) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isSignup, setIsSignup] = useState(false);
@@ -131,21 +188,22 @@ function AuthForm({ onLogin }: { onLogin: () => void }) {
     try {
       const result = isSignup ? await auth.signup(email, password) : await auth.login(email, password);
       if (result.success) {
-        logEvent(isSignup ? 'user_signup' : 'user_login', { email });
+        monitor.logEvent(isSignup ? 'user_signup' : 'user_login', { email });
         onLogin();
       } else {
         setError(result.error?.message || 'エラーが発生しました');
-        logError(result.error?.message || 'Auth error', { email, isSignup });
+        monitor.logError(result.error || 'Auth error', { email, isSignup });
       }
     } catch (err) {
       setError('通信エラーが発生しました');
-      logError(err as Error, { context: 'auth_form' });
+      monitor.logError(err as Error, { context: 'auth_form' });
     }
   };
 
   return (
     <div style={styles.card}>
       <h2>{isSignup ? '新規登録' : 'ログイン'}</h2>
+      {notice && !error && <p style={styles.error}>{notice}</p>}
       {error && <p style={styles.error}>{error}</p>}
       <form onSubmit={handleSubmit} style={styles.form}>
         <input type="email" placeholder="メールアドレス" value={email} onChange={e => setEmail(e.target.value)} style={styles.input} required />
@@ -161,54 +219,476 @@ function AuthForm({ onLogin }: { onLogin: () => void }) {
   );
 }
 
-function RecipeForm({ userId, onAdd }: { userId: string; onAdd: () => void }) {
-  const [title, setTitle] = useState('');
-  const [ingredients, setIngredients] = useState('');
-  const [instructions, setInstructions] = useState('');
+type RecipeInput = Recipe['data'];
+
+interface PhotoUpload {
+  key: string;
+  name: string;
+  progress: number;
+  error?: string;
+}
+
+function RecipeForm({ initial, onSubmit, onCancel }: {
+  initial?: RecipeInput;
+  onSubmit: (recipe: RecipeInput) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const [title, setTitle] = useState(initial?.title || '');
+  // 材料は1行1つのテキストで編集し、保存時に数量・単位・材料名へ分解する
+  const [ingredients, setIngredients] = useState(initial ? initial.ingredients.map(i => formatIngredient(i)).join('\n') : '');
+  const [servings, setServings] = useState(initial?.servings || DEFAULT_SERVINGS);
+  const [instructions, setInstructions] = useState(initial?.instructions || '');
+  const [tags, setTags] = useState(initial?.tags?.join(', ') || '');
+  const [photos, setPhotos] = useState<Photo[]>(initial?.photos || []);
+  const [uploads, setUploads] = useState<PhotoUpload[]>([]);
+  const parsed = parseIngredients(ingredients);
+  const isUploading = uploads.some(upload => !upload.error);
+  // このフォームでアップロードした写真（保存せずに閉じたら消す）
+  const isNewPhoto = (photo: Photo) => !includesPhoto(initial?.photos || [], photo);
+
+  const updateUpload = (key: string, patch: Partial<PhotoUpload>) =>
+    setUploads(prev => prev.map(upload => (upload.key === key ? { ...upload, ...patch } : upload)));
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+    await Promise.all(selected.map(async file => {
+      const key = `${file.name}-${Date.now()}-${Math.random()}`;
+      setUploads(prev => [...prev, { key, name: file.name, progress: 0 }]);
+      try {
+        const result = await uploadPhoto(file, progress => updateUpload(key, { progress }));
+        if (result.success && result.data) {
+          const photo = result.data;
+          setPhotos(prev => [...prev, photo]);
+          setUploads(prev => prev.filter(upload => upload.key !== key));
+        } else {
+          updateUpload(key, { error: result.error?.message || 'アップロードに失敗しました' });
+        }
+      } catch (err) {
+        updateUpload(key, { error: '画像を読み込めませんでした' });
+        monitor.logError(err as Error, { context: 'photo_upload' });
+      }
+    }));
+  };
+
+  const handleRemovePhoto = (photo: Photo) => {
+    setPhotos(prev => prev.filter(p => photoKey(p) !== photoKey(photo)));
+    // 保存済みの写真は、変更を保存したときに消す
+    if (isNewPhoto(photo)) deletePhotoFiles([photo]);
+  };
+
+  const handleCancel = () => {
+    deletePhotoFiles(photos.filter(isNewPhoto));
+    onCancel?.();
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const saved = await onSubmit({ title, ingredients: parsed, servings, instructions, tags: parseTags(tags), photos });
+    if (!saved) return;
+    if (initial?.photos) deletePhotoFiles(initial.photos.filter(photo => !includesPhoto(photos, photo)));
+    if (!initial) {
+      setTitle(''); setIngredients(''); setServings(DEFAULT_SERVINGS); setInstructions(''); setTags(''); setPhotos([]); setUploads([]);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} style={styles.form}>
+      <input type="text" placeholder="レシピ名" value={title} onChange={e => setTitle(e.target.value)} style={styles.input} required />
+      <label style={styles.servingsLabel}>
+        <input type="number" min={1} step="any" value={servings} onChange={e => setServings(Math.max(1, Number(e.target.value) || 1))} style={{ ...styles.input, width: '80px' }} required />
+        人分
+      </label>
+      <textarea placeholder={'材料（1行に1つ）\n例: 鶏もも肉 300g / 醤油 大さじ2 / 塩 少々'} value={ingredients} onChange={e => setIngredients(e.target.value)} style={styles.textarea} required />
+      {parsed.length > 0 && (
+        <table style={styles.ingredientTable}>
+          <thead>
+            <tr><th style={styles.ingredientCell}>材料</th><th style={styles.ingredientCell}>数量</th><th style={styles.ingredientCell}>単位</th></tr>
+          </thead>
+          <tbody>
+            {parsed.map((ingredient, index) => (
+              <tr key={index}>
+                <td style={styles.ingredientCell}>{ingredient.name}</td>
+                <td style={styles.ingredientCell}>{ingredient.quantity !== undefined ? formatQuantity(ingredient.quantity) : '-'}</td>
+                <td style={styles.ingredientCell}>{ingredient.unit || '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <textarea placeholder="作り方" value={instructions} onChange={e => setInstructions(e.target.value)} style={styles.textarea} required />
+      <input type="text" placeholder="タグ（カンマ区切り 例: 和食, 時短）" value={tags} onChange={e => setTags(e.target.value)} style={styles.input} />
+      <label>
+        📷 写真を追加
+        <input type="file" accept="image/*" multiple onChange={handleFiles} style={{ marginLeft: '10px' }} />
+      </label>
+      {photos.length > 0 && (
+        <div style={styles.photoStrip}>
+          {photos.map(photo => (
+            <div key={photo.thumbnailUrl} style={{ position: 'relative' }}>
+              <img src={photo.thumbnailUrl} alt="" style={styles.photoThumb} />
+              <button type="button" onClick={() => handleRemovePhoto(photo)} style={styles.photoRemove} aria-label="写真を削除">×</button>
+            </div>
+          ))}
+        </div>
+      )}
+      {uploads.map(upload => (
+        <div key={upload.key} style={{ fontSize: '13px' }}>
+          {upload.name}
+          {upload.error ? (
+            <span style={{ color: 'red', marginLeft: '8px' }}>
+              {upload.error}
+              <button type="button" onClick={() => setUploads(prev => prev.filter(u => u.key !== upload.key))} style={{ marginLeft: '8px' }}>閉じる</button>
+            </span>
+          ) : (
+            <div style={styles.progress}>
+              <div style={{ ...styles.progressBar, width: `${Math.round(upload.progress * 100)}%` }} />
+            </div>
+          )}
+        </div>
+      ))}
+      <div style={{ display: 'flex', gap: '10px' }}>
+        <button type="submit" disabled={isUploading} style={styles.button}>
+          {isUploading ? 'アップロード中...' : initial ? '保存' : '追加'}
+        </button>
+        {onCancel && <button type="button" onClick={handleCancel} style={styles.buttonSecondary}>キャンセル</button>}
+      </div>
+    </form>
+  );
+}
+
+// 写真・材料・作り方の表示（詳細画面と公開ページで共通）
+function RecipeContentView({ recipe }: { recipe: RecipeContent }) {
+  // 表示する人数。変えると材料の分量をその人数分に換算する
+  const [servings, setServings] = useState(recipe.servings);
+  const [photoIndex, setPhotoIndex] = useState(0);
+  const scale = servings / recipe.servings;
+  const photos = recipe.photos || [];
+  const currentPhoto = photos[Math.min(photoIndex, photos.length - 1)];
+
+  useEffect(() => {
+    setServings(recipe.servings);
+  }, [recipe.servings]);
+
+  return (
+    <>
+      {currentPhoto && (
+        <>
+          <img src={currentPhoto.url} alt={recipe.title} style={styles.photoFull} />
+          {photos.length > 1 && (
+            <div style={{ ...styles.photoStrip, marginBottom: '15px' }}>
+              {photos.map((photo, index) => (
+                <img
+                  key={photo.thumbnailUrl}
+                  src={photo.thumbnailUrl}
+                  alt=""
+                  onClick={() => setPhotoIndex(index)}
+                  style={{ ...styles.photoThumb, ...(photo === currentPhoto ? styles.photoThumbActive : {}) }}
+                />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+      <div style={styles.recipeTitle}>{recipe.title}</div>
+      {recipe.tags && recipe.tags.length > 0 && (
+        <p style={{ marginBottom: '8px' }}>
+          {recipe.tags.map(tag => <span key={tag} style={styles.tag}>#{tag}</span>)}
+        </p>
+      )}
+      <p style={styles.servingsLabel}>
+        <strong>材料:</strong>
+        <button onClick={() => setServings(n => Math.max(1, n - 1))} style={styles.servingsButton} aria-label="人数を減らす">−</button>
+        {servings}人分
+        <button onClick={() => setServings(n => n + 1)} style={styles.servingsButton} aria-label="人数を増やす">＋</button>
+      </p>
+      <ul style={styles.ingredientList}>
+        {recipe.ingredients.map((ingredient, index) => (
+          <li key={index}>{formatIngredient(ingredient, scale)}</li>
+        ))}
+      </ul>
+      <p><strong>作り方:</strong></p>
+      <p style={{ whiteSpace: 'pre-wrap' }}>{recipe.instructions}</p>
+    </>
+  );
+}
+
+const shareUrl = (shareId: string) => `${window.location.origin}/shared/${encodeURIComponent(shareId)}`;
+
+function SharePanel({ recipe, onShare, onUnshare }: {
+  recipe: Recipe;
+  onShare: (recipe: Recipe) => Promise<string | null>;
+  onUnshare: (recipe: Recipe) => Promise<string | null>;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const { shareId } = recipe.data;
+
+  const run = async (action: (recipe: Recipe) => Promise<string | null>) => {
+    setBusy(true);
+    setMessage('');
+    const error = await action(recipe);
+    setBusy(false);
+    if (error) setMessage(error);
+  };
+
+  const handleCopy = async () => {
+    if (!shareId) return;
     try {
-      const result = await data.create('recipes', { title, ingredients, instructions, userId });
-      if (result.success) {
-        logEvent('recipe_created', { title });
-        setTitle(''); setIngredients(''); setInstructions('');
-        onAdd();
-      }
-    } catch (err) {
-      logError(err as Error, { context: 'recipe_create' });
+      await navigator.clipboard.writeText(shareUrl(shareId));
+      setMessage('リンクをコピーしました');
+    } catch {
+      setMessage('コピーできませんでした。リンクを選択してコピーしてください');
     }
   };
 
+  return (
+    <div style={styles.sharePanel}>
+      {shareId ? (
+        <>
+          <p style={{ marginBottom: '8px' }}>🔗 このレシピは公開中です。リンクを知っている人はログインせずに閲覧できます。</p>
+          <div style={{ display: 'flex', gap: '10px' }}>
+            <input type="text" readOnly value={shareUrl(shareId)} onFocus={e => e.target.select()} style={{ ...styles.input, flex: 1 }} />
+            <button onClick={handleCopy} style={styles.button}>コピー</button>
+            <button onClick={() => run(onUnshare)} disabled={busy} style={styles.buttonSecondary}>公開をやめる</button>
+          </div>
+        </>
+      ) : (
+        <button onClick={() => run(onShare)} disabled={busy} style={styles.button}>🔗 リンクで公開する</button>
+      )}
+      {message && <p style={{ marginTop: '8px', fontSize: '14px' }}>{message}</p>}
+    </div>
+  );
+}
+
+function RecipeDetail({ recipe, onBack, onUpdate, onDelete, onShare, onUnshare }: {
+  recipe: Recipe;
+  onBack: () => void;
+  onUpdate: (id: string, recipe: RecipeInput) => Promise<boolean>;
+  onDelete: (id: string) => void;
+  onShare: (recipe: Recipe) => Promise<string | null>;
+  onUnshare: (recipe: Recipe) => Promise<string | null>;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+
+  if (isEditing) {
+    return (
+      <div style={styles.card}>
+        <h2>✏️ レシピを編集</h2>
+        <RecipeForm
+          initial={recipe.data}
+          onSubmit={async changes => {
+            const saved = await onUpdate(recipe.id, changes);
+            if (saved) setIsEditing(false);
+            return saved;
+          }}
+          onCancel={() => setIsEditing(false)}
+        />
+      </div>
+    );
+  }
+
   return (
     <div style={styles.card}>
-      <h2>📝 レシピを追加</h2>
-      <form onSubmit={handleSubmit} style={styles.form}>
-        <input type="text" placeholder="レシピ名" value={title} onChange={e => setTitle(e.target.value)} style={styles.input} required />
-        <textarea placeholder="材料（1行に1つ）" value={ingredients} onChange={e => setIngredients(e.target.value)} style={styles.textarea} required />
-        <textarea placeholder="作り方" value={instructions} onChange={e => setInstructions(e.target.value)} style={styles.textarea} required />
-        <button type="submit" style={styles.button}>追加</button>
-      </form>
+      <button onClick={onBack} style={{ ...styles.buttonSecondary, marginBottom: '15px' }}>← 一覧に戻る</button>
+      <RecipeContentView recipe={recipe.data} />
+      <div style={{ display: 'flex', gap: '10px', marginTop: '10px', flexWrap: 'wrap' }}>
+        <button onClick={() => setIsEditing(true)} style={styles.button}>編集</button>
+        <button onClick={() => onDelete(recipe.id)} style={styles.buttonSecondary}>削除</button>
+        <ExportButtons recipes={[toRecipeContent(recipe.data)]} filename={safeFilename(recipe.data.title)} />
+      </div>
+      <SharePanel recipe={recipe} onShare={onShare} onUnshare={onUnshare} />
     </div>
   );
 }
 
-function RecipeList({ recipes, onDelete }: { recipes: Recipe[]; onDelete: (id: string) => void }) {
+function RecipeCard({ recipe, onSelect }: { recipe: Recipe; onSelect: () => void }) {
+  const thumbnail = recipe.data.photos?.[0]?.thumbnailUrl;
+  return (
+    <button onClick={onSelect} style={styles.gridItem}>
+      {thumbnail ? <img src={thumbnail} alt="" style={styles.thumbnail} /> : <div style={styles.thumbnailPlaceholder}>🍳</div>}
+      <div style={styles.gridItemBody}>
+        <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>{recipe.data.title}</div>
+        {recipe.data.tags?.map(tag => <span key={tag} style={styles.tag}>#{tag}</span>)}
+      </div>
+    </button>
+  );
+}
+
+function RecipeList({ recipes, onUpdate, onDelete, onShare, onUnshare }: {
+  recipes: Recipe[];
+  onUpdate: (id: string, recipe: RecipeInput) => Promise<boolean>;
+  onDelete: (id: string) => void;
+  onShare: (recipe: Recipe) => Promise<string | null>;
+  onUnshare: (recipe: Recipe) => Promise<string | null>;
+}) {
+  const [search, updateSearch] = useSearchState();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = recipes.find(recipe => recipe.id === selectedId);
+
+  if (selected) {
+    return (
+      <RecipeDetail
+        recipe={selected}
+        onBack={() => setSelectedId(null)}
+        onUpdate={onUpdate}
+        onDelete={onDelete}
+        onShare={onShare}
+        onUnshare={onUnshare}
+      />
+    );
+  }
+
   if (recipes.length === 0) return <p style={{ textAlign: 'center', color: '#666' }}>まだレシピがありません</p>;
 
+  const allTags = collectTags(recipes);
+  const visible = filterRecipes(recipes, search);
+  const toggleTag = (tag: string) => updateSearch({
+    tags: search.tags.includes(tag) ? search.tags.filter(t => t !== tag) : [...search.tags, tag],
+  });
+
   return (
     <div style={styles.card}>
       <h2>📚 マイレシピ</h2>
-      {recipes.map(recipe => (
-        <div key={recipe.id} style={styles.recipeItem}>
-          <div style={styles.recipeTitle}>{recipe.data.title}</div>
-          <p><strong>材料:</strong></p>
-          <pre style={{ background: '#f5f5f5', padding: '10px', fontSize: '14px' }}>{recipe.data.ingredients}</pre>
-          <p><strong>作り方:</strong></p>
-          <p>{recipe.data.instructions}</p>
-          <button onClick={() => onDelete(recipe.id)} style={{ ...styles.buttonSecondary, marginTop: '10px' }}>削除</button>
+      <div style={styles.searchBar}>
+        <input
+          type="search"
+          placeholder="レシピ名・材料・作り方で検索"
+          value={search.query}
+          onChange={e => updateSearch({ query: e.target.value })}
+          style={{ ...styles.input, flex: 1 }}
+        />
+        <select value={search.sort} onChange={e => updateSearch({ sort: e.target.value as SortOrder })} style={styles.input}>
+          {(Object.keys(SORT_LABELS) as SortOrder[]).map(sort => (
+            <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+          ))}
+        </select>
+      </div>
+      {allTags.length > 0 && (
+        <div style={styles.chips}>
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              style={{ ...styles.chip, ...(search.tags.includes(tag) ? styles.chipActive : {}) }}
+            >
+              #{tag}
+            </button>
+          ))}
         </div>
-      ))}
+      )}
+      {visible.length === 0 ? (
+        <p style={{ textAlign: 'center', color: '#666' }}>条件に合うレシピがありません</p>
+      ) : (
+        <div style={styles.grid}>
+          {visible.map(recipe => <RecipeCard key={recipe.id} recipe={recipe} onSelect={() => setSelectedId(recipe.id)} />)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ExportButtons({ recipes, filename }: { recipes: RecipeContent[]; filename: string }) {
+  const exportAs = (format: 'markdown' | 'json') => {
+    if (format === 'markdown') downloadFile(`${filename}.md`, exportMarkdown(recipes), 'text/markdown');
+    else downloadFile(`${filename}.json`, exportJson(recipes), 'application/ld+json');
+    monitor.logEvent('recipes_exported', { format, count: recipes.length });
+  };
+
+  return (
+    <>
+      <button type="button" onClick={() => exportAs('markdown')} style={styles.buttonSecondary}>Markdownで書き出す</button>
+      <button type="button" onClick={() => exportAs('json')} style={styles.buttonSecondary}>JSONで書き出す</button>
+    </>
+  );
+}
+
+function ImportExportPanel({ recipes, onImport }: { recipes: Recipe[]; onImport: (recipes: RecipeContent[]) => Promise<number> }) {
+  const [text, setText] = useState('');
+  const [preview, setPreview] = useState<RecipeContent[]>([]);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const load = (source: string) => {
+    setMessage('');
+    const result = parseImport(source);
+    if (result.ok) {
+      setPreview(result.value);
+      setError('');
+    } else {
+      setPreview([]);
+      setError(result.issues.join('\n'));
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    load(content);
+  };
+
+  const handleImport = async () => {
+    const count = await onImport(preview);
+    setMessage(count === preview.length ? `${count}件のレシピを追加しました` : `${preview.length}件中${count}件を追加しました`);
+    setPreview([]);
+    setText('');
+  };
+
+  return (
+    <div style={styles.card}>
+      <h2>📦 インポート・エクスポート</h2>
+      <div style={styles.form}>
+        <textarea
+          placeholder="schema.org の Recipe（JSON-LD）を貼り付け、またはファイルを選択（JSON / HTML / このアプリのMarkdown）"
+          value={text}
+          onChange={e => setText(e.target.value)}
+          style={styles.textarea}
+        />
+        <div style={{ display: 'flex', gap: '10px', alignItems: 'center', flexWrap: 'wrap' }}>
+          <button type="button" onClick={() => load(text)} disabled={!text.trim()} style={styles.button}>読み込む</button>
+          <input type="file" accept=".json,.jsonld,.html,.htm,.md,.txt" onChange={handleFile} />
+        </div>
+        {error && <p style={{ ...styles.error, whiteSpace: 'pre-wrap' }}>{error}</p>}
+        {preview.length > 0 && (
+          <>
+            <ul style={{ paddingLeft: '20px' }}>
+              {preview.map((recipe, index) => (
+                <li key={index}>{recipe.title}（材料{recipe.ingredients.length}品・{recipe.servings}人分）</li>
+              ))}
+            </ul>
+            <button type="button" onClick={handleImport} style={styles.button}>{preview.length}件を追加</button>
+          </>
+        )}
+        {message && <p>{message}</p>}
+        {recipes.length > 0 && (
+          <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+            <ExportButtons recipes={recipes.map(recipe => toRecipeContent(recipe.data))} filename="recipes" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SyncIndicator() {
+  const [sync, setSync] = useState(data.sync.getState());
+
+  useEffect(() => data.sync.subscribe(setSync), []);
+
+  const label = sync.status === 'syncing'
+    ? '同期中...'
+    : sync.status === 'offline'
+      ? `オフライン${sync.pending > 0 ? `（未送信 ${sync.pending}件）` : ''}`
+      : sync.pending > 0 ? `未送信 ${sync.pending}件` : '同期済み';
+  const color = sync.status === 'offline' ? '#e67e22' : sync.status === 'syncing' ? '#0066cc' : '#28a745';
+
+  return (
+    <div style={styles.syncStatus}>
+      <span style={{ color }}>●</span> {label}
+      {sync.lastError && <span style={{ color: 'red', marginLeft: '8px' }}>{sync.lastError}</span>}
     </div>
   );
 }
@@ -217,6 +697,16 @@ function App() {
   const [user, setUser] = useState<{ id: string; email: string } | null>(null);
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [loading, setLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
+
+  useEffect(() => {
+    // トークンを更新できなかったらログイン画面に戻す
+    return auth.onSessionExpired(() => {
+      setUser(null);
+      setRecipes([]);
+      setSessionExpired(true);
+    });
+  }, []);
 
   useEffect(() => {
     const init = async () => {
@@ -224,7 +714,7 @@ function App() {
         const result = await auth.me();
         if (result.success && result.data) {
           setUser(result.data);
-          logEvent('app_loaded', { userId: result.data.id });
+          monitor.logEvent('app_loaded', { userId: result.data.id });
         }
       }
       setLoading(false);
@@ -233,26 +723,124 @@ function App() {
   }, []);
 
   useEffect(() => {
-    if (user) loadRecipes();
+    if (!user) return;
+    migrateRecipes();
+    loadRecipes();
+    // オフライン中の変更を送り終えたら、サーバーのIDで取り直す
+    return data.sync.onSynced(loadRecipes);
   }, [user]);
 
   const loadRecipes = async () => {
-    const result = await data.list('recipes');
+    if (!user) return;
+    const result = await data.list(recipesCollection);
     if (result.success && result.data) {
-      setRecipes(result.data.filter((r: any) => r.data.userId === user?.id) as Recipe[]);
+      setRecipes(result.data);
+    }
+  };
+
+  // 材料がテキストのままのレシピを、新しい形式で保存し直す
+  const migrateRecipes = async () => {
+    const result = await data.migrate(recipesCollection);
+    if (!result.success) {
+      monitor.logError(result.error || 'Migration error', { context: 'recipe_migrate' });
+    } else if (result.data) {
+      monitor.logEvent('recipes_migrated', { count: result.data });
+    }
+  };
+
+  const handleCreate = async (recipe: RecipeInput) => {
+    try {
+      const result = await data.create(recipesCollection, recipe);
+      if (!result.success) return false;
+      monitor.logEvent('recipe_created', { title: recipe.title });
+      loadRecipes();
+      return true;
+    } catch (err) {
+      monitor.logError(err as Error, { context: 'recipe_create' });
+      return false;
+    }
+  };
+
+  const handleUpdate = async (id: string, recipe: RecipeInput) => {
+    try {
+      const result = await data.update(recipesCollection, id, recipe);
+      if (!result.success) return false;
+      monitor.logEvent('recipe_updated', { recipeId: id });
+      // 公開中なら公開用のコピーも更新する
+      const shareId = recipes.find(r => r.id === id)?.data.shareId;
+      if (shareId) await data.update(sharedRecipesCollection, shareId, toSharedContent(recipe));
+      loadRecipes();
+      return true;
+    } catch (err) {
+      monitor.logError(err as Error, { context: 'recipe_update' });
+      return false;
     }
   };
 
   const handleDelete = async (id: string) => {
-    const result = await data.delete('recipes', id);
+    const recipe = recipes.find(r => r.id === id);
+    const photos = recipe?.data.photos || [];
+    const result = await data.delete(recipesCollection, id);
     if (result.success) {
-      logEvent('recipe_deleted', { recipeId: id });
+      monitor.logEvent('recipe_deleted', { recipeId: id });
+      if (recipe?.data.shareId) await data.delete(sharedRecipesCollection, recipe.data.shareId);
+      // レシピと一緒にアップロードした写真も消す
+      await deletePhotoFiles(photos);
       loadRecipes();
     }
   };
 
+  // 読み込んだレシピを順に追加し、追加できた件数を返す
+  const handleImport = async (imported: RecipeContent[]) => {
+    let count = 0;
+    for (const recipe of imported) {
+      const result = await data.create(recipesCollection, recipe);
+      if (result.success) count++;
+      else monitor.logError(result.error || 'Import error', { context: 'recipe_import', title: recipe.title });
+    }
+    monitor.logEvent('recipes_imported', { count });
+    loadRecipes();
+    return count;
+  };
+
+  // 公開用のコピーを作り、そのIDをレシピに記録する。失敗したらエラーメッセージを返す
+  const handleShare = async (recipe: Recipe) => {
+    if (isLocalId(recipe.id)) return '同期が終わってから公開してください';
+    const result = await data.create(sharedRecipesCollection, {
+      ...toSharedContent(recipe.data),
+      recipeId: recipe.id,
+      sharedAt: new Date().toISOString(),
+    });
+    if (!result.success || !result.data) return result.error?.message || '公開できませんでした';
+    if (result.meta?.queued) {
+      // オフラインではリンクを発行できないので、キューから取り下げる
+      await data.delete(sharedRecipesCollection, result.data.id);
+      return 'オフライン中は公開できません';
+    }
+
+    const updated = await data.update(recipesCollection, recipe.id, { shareId: result.data.id });
+    if (!updated.success) {
+      await data.delete(sharedRecipesCollection, result.data.id);
+      return updated.error?.message || '公開できませんでした';
+    }
+    monitor.logEvent('recipe_shared', { recipeId: recipe.id });
+    await loadRecipes();
+    return null;
+  };
+
+  const handleUnshare = async (recipe: Recipe) => {
+    const { shareId } = recipe.data;
+    if (!shareId) return null;
+    const result = await data.delete(sharedRecipesCollection, shareId);
+    if (!result.success) return result.error?.message || '公開をやめられませんでした';
+    await data.update(recipesCollection, recipe.id, { shareId: null });
+    monitor.logEvent('recipe_unshared', { recipeId: recipe.id });
+    await loadRecipes();
+    return null;
+  };
+
   const handleLogout = async () => {
-    logEvent('user_logout');
+    monitor.logEvent('user_logout');
     await auth.logout();
     setUser(null);
     setRecipes([]);
@@ -271,24 +859,88 @@ function App() {
             <button onClick={handleLogout} style={{ ...styles.buttonSecondary, marginLeft: '10px' }}>ログアウト</button>
           </p>
         )}
+        {user && <SyncIndicator />}
       </header>
       {!user ? (
-        <AuthForm onLogin={async () => {
-          const result = await auth.me();
-          if (result.success && result.data) setUser(result.data);
-        }} />
+        <AuthForm
+          notice={sessionExpired ? 'セッションの有効期限が切れました。再度ログインしてください' : undefined}
+          onLogin={async () => {
+            const result = await auth.me();
+            if (result.success && result.data) {
+              setSessionExpired(false);
+              setUser(result.data);
+            }
+          }}
+        />
       ) : (
         <>
-          <RecipeForm userId={user.id} onAdd={loadRecipes} />
-          <RecipeList recipes={recipes} onDelete={handleDelete} />
+          <div style={styles.card}>
+            <h2>📝 レシピを追加</h2>
+            <RecipeForm onSubmit={handleCreate} />
+          </div>
+          <RecipeList
+            recipes={recipes}
+            onUpdate={handleUpdate}
+            onDelete={handleDelete}
+            onShare={handleShare}
+            onUnshare={handleUnshare}
+          />
+          <ImportExportPanel recipes={recipes} onImport={handleImport} />
         </>
       )}
     </div>
   );
 }
 
+function SharedRecipeView({ shareId }: { shareId: string }) {
+  const [recipe, setRecipe] = useState<SharedRecipe | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      const result = await data.get(sharedRecipesCollection, shareId);
+      if (result.success && result.data) {
+        setRecipe(result.data);
+        monitor.logEvent('shared_recipe_viewed', { shareId });
+      } else {
+        setError(result.error?.status === 404 ? 'このレシピは公開されていないか、削除されました' : result.error?.message || 'レシピを読み込めませんでした');
+      }
+      setLoading(false);
+    };
+    load();
+  }, [shareId]);
+
+  return (
+    <div style={styles.container}>
+      <header style={styles.header}>
+        <h1>🍳 マイレシピ帳</h1>
+        <p>共有されたレシピ</p>
+      </header>
+      <div style={styles.card}>
+        {loading ? (
+          <p>読み込み中...</p>
+        ) : recipe ? (
+          <RecipeContentView recipe={recipe.data} />
+        ) : (
+          <p style={styles.error}>{error}</p>
+        )}
+      </div>
+      <p style={{ textAlign: 'center' }}>
+        <a href="/" style={{ color: '#0066cc' }}>マイレシピ帳で自分のレシピを管理する</a>
+      </p>
+    </div>
+  );
+}
+
+// 公開ページはログインなしで表示する
+function Root() {
+  const shareId = parseSharedId();
+  return shareId ? <SharedRecipeView shareId={shareId} /> : <App />;
+}
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
 );
@@ -0,0 +1,134 @@
+import { defineCollection, s, type CollectionRecord, type Infer } from 'nanobase-client';
+
+// ==========================================
+// コレクション定義
+// ==========================================
+const ingredientSchema = s.object({
+  // 「少々」「適量」など数量のない材料は quantity なし
+  quantity: s.optional(s.number()),
+  unit: s.optional(s.string()),
+  name: s.string(),
+});
+
+export type Ingredient = Infer<typeof ingredientSchema>;
+
+const photoSchema = s.object({
+  url: s.string(),
+  thumbnailUrl: s.string(),
+  // blobエンドポイントに保存したときのファイルID（base64で埋め込んだ場合はなし）
+  fileId: s.optional(s.string()),
+  thumbnailFileId: s.optional(s.string()),
+  width: s.number(),
+  height: s.number(),
+});
+
+export type Photo = Infer<typeof photoSchema>;
+
+// レシピ本体の項目（自分用のレシピと公開用のコピーで共通）
+const recipeFields = {
+  title: s.string(),
+  ingredients: s.array(ingredientSchema),
+  // 材料の分量が何人分か
+  servings: s.number(),
+  instructions: s.string(),
+  // 「和食」「時短」などの分類。タグ導入前のレシピにはない
+  tags: s.optional(s.array(s.string())),
+  photos: s.optional(s.array(photoSchema)),
+};
+
+const recipeContentSchema = s.object(recipeFields);
+
+export type RecipeContent = Infer<typeof recipeContentSchema>;
+
+export const recipesCollection = defineCollection('recipes', s.object({
+  ...recipeFields,
+  // 公開中なら公開用コピーのID
+  shareId: s.optional(s.string()),
+}), {
+  // 材料が1行1つのテキストだった頃のレコードを変換する
+  migrate: old => typeof old.ingredients === 'string'
+    ? { ...old, ingredients: parseIngredients(old.ingredients), servings: old.servings ?? DEFAULT_SERVINGS }
+    : null,
+});
+
+// 公開したレシピのコピー。リンク（ID）を知っていればログインしていなくても読めるが、一覧はできない
+export const sharedRecipesCollection = defineCollection('shared_recipes', s.object({
+  ...recipeFields,
+  recipeId: s.string(),
+  sharedAt: s.string(),
+}));
+
+export type Recipe = CollectionRecord<typeof recipesCollection>;
+export type SharedRecipe = CollectionRecord<typeof sharedRecipesCollection>;
+
+// ==========================================
+// 材料の解析と分量の計算
+// ==========================================
+export const DEFAULT_SERVINGS = 2;
+
+// 数量の前に書く単位（大さじ2 など）
+const PREFIX_UNITS = ['大さじ', '小さじ', 'カップ'];
+// 数量の後に書く単位（長いものから順に照合する）
+const SUFFIX_UNITS = [
+  'tbsp', 'tsp', 'cups', 'cup', 'kg', 'mg', 'ml', 'cc', 'oz', 'lb', 'g', 'l',
+  'カップ', '切れ', 'かけ', '個', '本', '枚', '片', '株', '束', '袋', '缶', '合', '杯', '尾', '丁', '玉', '房', '粒', '人分',
+];
+// 数量を持たない分量の表現
+const AMOUNT_WORDS = ['少々', '適量', '適宜', 'ひとつまみ', 'お好みで'];
+
+const QUANTITY = String.raw`\d+(?:\.\d+)?(?:\s*\/\s*\d+)?`;
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const PREFIX_PATTERN = new RegExp(`^(.*?)\\s*(${PREFIX_UNITS.join('|')})\\s*(${QUANTITY})$`);
+const SUFFIX_PATTERN = new RegExp(`^(.*?)\\s*(${QUANTITY})\\s*(${SUFFIX_UNITS.map(escapeRegExp).join('|')})?$`, 'i');
+const LEADING_PATTERN = new RegExp(`^(${QUANTITY})\\s*(${SUFFIX_UNITS.map(escapeRegExp).join('|')})?\\s+(.+)$`, 'i');
+const AMOUNT_PATTERN = new RegExp(`^(.*?)\\s*(${AMOUNT_WORDS.join('|')})$`);
+// 数量のない単位だけの分量（「バター g」など）。材料名の一部と区別するため空白で区切られたものに限る
+const UNIT_ONLY_PATTERN = new RegExp(`^(.*?)\\s+(${[...PREFIX_UNITS, ...SUFFIX_UNITS].map(escapeRegExp).join('|')})$`, 'i');
+
+// 小数第3位までに丸める（1/3 などを表示と保存で同じ値にする）
+const roundQuantity = (quantity: number) => Math.round(quantity * 1000) / 1000;
+
+// "1/2" や "1.5" を数値にする
+function parseQuantity(text: string) {
+  const [numerator, denominator] = text.split('/').map(part => Number(part.trim()));
+  return roundQuantity(denominator ? numerator / denominator : numerator);
+}
+
+// 1行を「数量・単位・材料名」に分解する。読み取れなければ行全体を材料名にする
+export function parseIngredientLine(line: string): Ingredient {
+  const text = line.normalize('NFKC').replace(/^[・\-*]\s*/, '').trim();
+
+  const prefix = text.match(PREFIX_PATTERN);
+  if (prefix && prefix[1]) return { name: prefix[1].trim(), unit: prefix[2], quantity: parseQuantity(prefix[3]) };
+
+  const suffix = text.match(SUFFIX_PATTERN);
+  if (suffix && suffix[1]) return { name: suffix[1].trim(), quantity: parseQuantity(suffix[2]), ...(suffix[3] ? { unit: suffix[3] } : {}) };
+
+  const leading = text.match(LEADING_PATTERN);
+  if (leading) return { name: leading[3].trim(), quantity: parseQuantity(leading[1]), ...(leading[2] ? { unit: leading[2] } : {}) };
+
+  const amount = text.match(AMOUNT_PATTERN);
+  if (amount && amount[1]) return { name: amount[1].trim(), unit: amount[2] };
+
+  const unitOnly = text.match(UNIT_ONLY_PATTERN);
+  if (unitOnly && unitOnly[1]) return { name: unitOnly[1].trim(), unit: unitOnly[2] };
+
+  return { name: text };
+}
+
+export function parseIngredients(text: string): Ingredient[] {
+  return text.split('\n').filter(line => line.trim()).map(parseIngredientLine);
+}
+
+// 余計な0を付けずに表示する
+export const formatQuantity = (quantity: number) => String(roundQuantity(quantity));
+
+export function formatIngredient(ingredient: Ingredient, scale = 1) {
+  const { name, unit, quantity } = ingredient;
+  if (quantity === undefined) return unit ? `${name} ${unit}` : name;
+  const amount = formatQuantity(quantity * scale);
+  if (!unit) return `${name} ${amount}`;
+  if (PREFIX_UNITS.includes(unit)) return `${name} ${unit}${amount}`;
+  // cups / tbsp などの英単語は数量と離して書く
+  return /^[a-z]{3,}$/i.test(unit) ? `${name} ${amount} ${unit}` : `${name} ${amount}${unit}`;
+}
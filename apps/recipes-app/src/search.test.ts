@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { Recipe } from './recipe';
+import { collectTags, filterRecipes, formatSearchState, parseSearchState, parseTags } from './search';
+
+describe('parseSearchState', () => {
+  it('キーワード・タグ・並び順を読み取る', () => {
+    expect(parseSearchState('?q=%E3%82%AB%E3%83%AC%E3%83%BC&tag=%E5%92%8C%E9%A3%9F&tag=%E6%99%82%E7%9F%AD&sort=title')).toEqual({
+      query: 'カレー',
+      tags: ['和食', '時短'],
+      sort: 'title',
+    });
+  });
+
+  it('指定がなければ既定値にする', () => {
+    expect(parseSearchState('')).toEqual({ query: '', tags: [], sort: 'newest' });
+  });
+
+  it('知らない並び順は新しい順にする', () => {
+    expect(parseSearchState('?sort=popular').sort).toBe('newest');
+  });
+
+  it('Object.prototype のキーは並び順として受け付けない', () => {
+    expect(parseSearchState('?sort=toString').sort).toBe('newest');
+    expect(parseSearchState('?sort=constructor').sort).toBe('newest');
+    expect(parseSearchState('?sort=__proto__').sort).toBe('newest');
+  });
+});
+
+describe('formatSearchState', () => {
+  it('既定値の項目は省く', () => {
+    expect(formatSearchState({ query: '', tags: [], sort: 'newest' })).toBe('');
+  });
+
+  it('parseSearchState で元に戻せる', () => {
+    const state = { query: '鶏 もも', tags: ['和食', 'お弁当'], sort: 'oldest' as const };
+    expect(parseSearchState(`?${formatSearchState(state)}`)).toEqual(state);
+  });
+});
+
+const recipe = (id: string, title: string, createdAt: string, extra: Partial<Recipe['data']> = {}): Recipe => ({
+  id,
+  createdAt,
+  data: { title, ingredients: [], servings: 2, instructions: '', ...extra },
+});
+
+const recipes = [
+  recipe('curry', 'チキンカレー', '2024-01-02T00:00:00.000Z', { ingredients: [{ name: '鶏もも肉', quantity: 300, unit: 'g' }], tags: ['洋食'] }),
+  recipe('miso', '味噌汁', '2024-01-03T00:00:00.000Z', { instructions: 'だしを取る', tags: ['和食', '時短'] }),
+  recipe('salad', 'ＰＯＴＡＴＯサラダ', '2024-01-01T00:00:00.000Z', { tags: ['洋食', '時短'] }),
+];
+
+describe('filterRecipes', () => {
+  const ids = (query: string, tags: string[] = [], sort: 'newest' | 'oldest' | 'title' = 'newest') =>
+    filterRecipes(recipes, { query, tags, sort }).map(r => r.id);
+
+  it('カタカナとひらがな、全角と半角の違いを無視する', () => {
+    expect(ids('かれー')).toEqual(['curry']);
+    expect(ids('potato')).toEqual(['salad']);
+  });
+
+  it('材料や作り方も検索する', () => {
+    expect(ids('鶏もも')).toEqual(['curry']);
+    expect(ids('だし')).toEqual(['miso']);
+  });
+
+  it('すべてのタグを持つレシピだけに絞る', () => {
+    expect(ids('', ['洋食', '時短'])).toEqual(['salad']);
+  });
+
+  it('並び順を切り替える', () => {
+    expect(ids('')).toEqual(['miso', 'curry', 'salad']);
+    expect(ids('', [], 'oldest')).toEqual(['salad', 'curry', 'miso']);
+  });
+});
+
+describe('タグ', () => {
+  it('区切り文字をまとめて扱い、重複を除く', () => {
+    expect(parseTags('和食、時短, 和食　お弁当')).toEqual(['和食', '時短', 'お弁当']);
+  });
+
+  it('件数の多い順に集める', () => {
+    expect(collectTags(recipes)).toEqual(['時短', '洋食', '和食']);
+  });
+});
@@ -0,0 +1,105 @@
+import type { Recipe } from './recipe';
+
+// ==========================================
+// 検索・絞り込み・並び替え
+// ==========================================
+export type SortOrder = 'newest' | 'oldest' | 'title';
+
+export const SORT_LABELS: Record<SortOrder, string> = {
+  newest: '新しい順',
+  oldest: '古い順',
+  title: '名前順',
+};
+
+export interface SearchState {
+  query: string;
+  tags: string[];
+  sort: SortOrder;
+}
+
+// NFKCで全角英数や半角カナを揃え、大文字小文字を区別しない
+const normalizeWidth = (text: string) => text.normalize('NFKC').toLowerCase();
+
+// さらにカタカナをひらがなに寄せる（「カレー」と「かれー」を同じに扱う）
+const normalizeText = (text: string) =>
+  normalizeWidth(text).replace(/[\u30a1-\u30f6]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl ? new Intl.Segmenter('ja', { granularity: 'word' }) : null;
+
+interface SearchTerm {
+  term: string;
+  words: string[];
+}
+
+// 検索語を単語に分ける。日本語は空白で区切られないので、語の単位に分割する（助詞などの1文字のひらがなは除く）
+function tokenize(query: string): SearchTerm[] {
+  return normalizeWidth(query)
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(term => {
+      // 分割は文字種の違いが手がかりになるので、ひらがなに寄せる前に行う
+      const words = segmenter
+        ? Array.from(segmenter.segment(term))
+          .filter(segment => segment.isWordLike && !/^[\u3041-\u3096]$/.test(segment.segment))
+          .map(segment => normalizeText(segment.segment))
+        : [];
+      return { term: normalizeText(term), words };
+    });
+}
+
+const searchableText = (recipe: Recipe) => normalizeText([
+  recipe.data.title,
+  ...recipe.data.ingredients.map(ingredient => ingredient.name),
+  recipe.data.instructions,
+  ...(recipe.data.tags || []),
+].join('\n'));
+
+// 検索語ごとに、そのまま含まれるか、分割したすべての単語が含まれていれば一致とする
+function matchesQuery(recipe: Recipe, terms: SearchTerm[]) {
+  const text = searchableText(recipe);
+  return terms.every(({ term, words }) => text.includes(term) || (words.length > 0 && words.every(word => text.includes(word))));
+}
+
+export function filterRecipes(recipes: Recipe[], search: SearchState) {
+  const terms = tokenize(search.query);
+  const filtered = recipes.filter(recipe =>
+    search.tags.every(tag => recipe.data.tags?.includes(tag)) && matchesQuery(recipe, terms)
+  );
+  // 送信待ちで作成日時のないレシピは最新として扱う
+  const time = (recipe: Recipe) => (recipe.createdAt ? new Date(recipe.createdAt).getTime() : Date.now());
+  return [...filtered].sort((a, b) => {
+    if (search.sort === 'title') return a.data.title.localeCompare(b.data.title, 'ja');
+    return search.sort === 'newest' ? time(b) - time(a) : time(a) - time(b);
+  });
+}
+
+// 使われているタグを件数の多い順に
+export function collectTags(recipes: Recipe[]) {
+  const counts = new Map<string, number>();
+  recipes.forEach(recipe => recipe.data.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], 'ja')).map(([tag]) => tag);
+}
+
+export const parseTags = (text: string) => [...new Set(text.split(/[,、，\s]+/).map(tag => tag.trim()).filter(Boolean))];
+
+// ==========================================
+// URL（?q=...&tag=...&sort=...）
+// ==========================================
+export function parseSearchState(search: string): SearchState {
+  const params = new URLSearchParams(search);
+  const sort = params.get('sort');
+  return {
+    query: params.get('q') || '',
+    tags: params.getAll('tag'),
+    sort: sort && Object.hasOwn(SORT_LABELS, sort) ? (sort as SortOrder) : 'newest',
+  };
+}
+
+// 既定値の項目は省いて、URLのクエリ文字列（? なし）にする
+export function formatSearchState(state: SearchState) {
+  const params = new URLSearchParams();
+  if (state.query) params.set('q', state.query);
+  state.tags.forEach(tag => params.append('tag', tag));
+  if (state.sort !== 'newest') params.set('sort', state.sort);
+  return params.toString();
+}
@@ -0,0 +1,13 @@
+// Notico から届いたWebプッシュを通知として表示する（内容は notify.schedule の subject / message）
+self.addEventListener('push', event => {
+  const payload = event.data ? event.data.json() : {};
+  event.waitUntil(self.registration.showNotification(payload.subject || 'Todo App', { body: payload.message || '' }));
+});
+
+// 通知をクリックしたら、開いているアプリに切り替える（なければ開く）
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then(clients => (clients.length > 0 ? clients[0].focus() : self.clients.openWindow('/')))
+  );
+});
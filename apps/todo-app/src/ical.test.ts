@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { exportICalendar, toRRule, type ICalTodo } from './ical';
+
+// 2025/1/10（金）
+const friday = new Date(2025, 0, 10);
+
+describe('toRRule', () => {
+  it('毎日の間隔を書く。1未満や小数の間隔は1にする', () => {
+    expect(toRRule({ freq: 'daily', interval: 2 }, friday)).toBe('FREQ=DAILY;INTERVAL=2');
+    expect(toRRule({ freq: 'daily', interval: 0.5 }, friday)).toBe('FREQ=DAILY;INTERVAL=1');
+  });
+
+  it('毎週は曜日を BYDAY にする。未指定なら期限の曜日', () => {
+    expect(toRRule({ freq: 'weekly', interval: 1 }, friday)).toBe('FREQ=WEEKLY;INTERVAL=1;BYDAY=FR');
+    expect(toRRule({ freq: 'weekly', interval: 2, byWeekday: [1, 3] }, friday)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE');
+  });
+
+  it('毎月は日を BYMONTHDAY にする。未指定なら期限の日', () => {
+    expect(toRRule({ freq: 'monthly', interval: 1 }, friday)).toBe('FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=10');
+  });
+
+  it('29日以降は月末に寄せるよう BYSETPOS で書く', () => {
+    expect(toRRule({ freq: 'monthly', interval: 1, byMonthDay: 31 }, friday)).toBe(
+      'FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=28,29,30,31;BYSETPOS=-1',
+    );
+  });
+
+  it('終了日はその日の終わりまでにする', () => {
+    expect(toRRule({ freq: 'daily', interval: 1, until: '2025-03-31' }, friday)).toBe('FREQ=DAILY;INTERVAL=1;UNTIL=20250331T235959');
+  });
+});
+
+const NOW = new Date(Date.UTC(2025, 0, 1, 12, 0, 0));
+
+const todo = (extra: Partial<ICalTodo> = {}): ICalTodo => ({
+  uid: 't1',
+  title: '定例会議',
+  dueDate: new Date(2025, 0, 10, 9, 30),
+  priority: 1,
+  completed: false,
+  categories: ['仕事', '会議'],
+  ...extra,
+});
+
+// VCALENDAR の中の VTODO の行だけを取り出す
+const vtodoLines = (todos: ICalTodo[]) => exportICalendar(todos, NOW).split('\r\n').slice(4, -2);
+
+describe('exportICalendar', () => {
+  it('VCALENDAR で囲み、CRLF で区切る', () => {
+    expect(exportICalendar([], NOW)).toBe(
+      'BEGIN:VCALENDAR\r\nVERSION:2.0\r\nPRODID:-//nanobase//todo-app//JA\r\nCALSCALE:GREGORIAN\r\nEND:VCALENDAR\r\n',
+    );
+  });
+
+  it('繰り返しのあるタスクは期限の日の0時を DTSTART にして RRULE を付ける', () => {
+    expect(vtodoLines([todo({ recurrence: { freq: 'weekly', interval: 1 } })])).toEqual([
+      'BEGIN:VTODO',
+      'UID:t1@todo-app',
+      'DTSTAMP:20250101T120000Z',
+      'SUMMARY:定例会議',
+      'DUE:20250110T093000',
+      'PRIORITY:1',
+      'STATUS:NEEDS-ACTION',
+      'CATEGORIES:仕事,会議',
+      'DTSTART:20250110T000000',
+      'RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=FR',
+      'END:VTODO',
+    ]);
+  });
+
+  it('期限がちょうど0時の繰り返しは DUE を書かず DTSTART だけにする', () => {
+    const lines = vtodoLines([todo({ dueDate: friday, recurrence: { freq: 'daily', interval: 1 } })]);
+    expect(lines.some(line => line.startsWith('DUE:'))).toBe(false);
+    expect(lines).toContain('DTSTART:20250110T000000');
+  });
+
+  it('繰り返しのないタスクや完了したタスクには RRULE を付けない', () => {
+    const lines = vtodoLines([todo(), todo({ uid: 't2', completed: true, recurrence: { freq: 'daily', interval: 1 } })]);
+    expect(lines.filter(line => line.startsWith('DUE:'))).toEqual(['DUE:20250110T093000', 'DUE:20250110T093000']);
+    expect(lines).toContain('STATUS:COMPLETED');
+    expect(lines.some(line => /^(DTSTART|RRULE):/.test(line))).toBe(false);
+  });
+
+  it('カテゴリがなければ CATEGORIES を書かない', () => {
+    expect(vtodoLines([todo({ categories: [] })]).some(line => line.startsWith('CATEGORIES:'))).toBe(false);
+  });
+
+  it('テキストの特殊文字と改行をエスケープする', () => {
+    const lines = vtodoLines([todo({ title: 'A, B; C\\D\n次', categories: ['a,b'] })]);
+    expect(lines).toContain('SUMMARY:A\\, B\\; C\\\\D\\n次');
+    expect(lines).toContain('CATEGORIES:a\\,b');
+  });
+
+  it('75オクテットを超える行は文字の途中で切らずに折り返す', () => {
+    const title = `${'a'.repeat(10)}${'あ'.repeat(40)}`;
+    const output = exportICalendar([todo({ title })], NOW);
+    const physical = output.split('\r\n');
+    const encoder = new TextEncoder();
+    expect(physical.every(line => encoder.encode(line).length <= 75)).toBe(true);
+    expect(physical.filter(line => line.startsWith(' ')).length).toBeGreaterThan(0);
+    expect(output.replace(/\r\n /g, '').split('\r\n')).toContain(`SUMMARY:${title}`);
+  });
+});
@@ -0,0 +1,90 @@
+import { pad, startOfDay, toLocalDate, type Recurrence } from './recurrence';
+
+// ==========================================
+// iCalendar 書き出し
+// ==========================================
+// 書き出すタスク。アプリのレコードからの変換は呼び出し側で行う
+export interface ICalTodo {
+  uid: string;
+  title: string;
+  dueDate: Date;
+  // PRIORITY は 1（高）〜 9（低）
+  priority: number;
+  completed: boolean;
+  categories: string[];
+  recurrence?: Recurrence;
+}
+
+const ICAL_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const escapeText = (text: string) => text.replace(/[\\;,]/g, match => `\\${match}`).replace(/\r?\n/g, '\\n');
+
+// 曜日の繰り返しが端末の日付とずれないよう、タイムゾーンなし（表示する側の現地時刻）で書く
+const formatLocalDateTime = (date: Date) =>
+  `${toLocalDate(date).replace(/-/g, '')}T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+
+const formatUtcDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// 1行は75オクテットまで。超える分は先頭に空白を付けた次の行に折り返す
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = lines.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      lines.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+export function toRRule(rule: Recurrence, dueDate: Date) {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`, `INTERVAL=${Math.max(1, Math.floor(rule.interval))}`];
+  if (rule.freq === 'weekly') {
+    const weekdays = rule.byWeekday?.length ? rule.byWeekday : [dueDate.getDay()];
+    parts.push(`BYDAY=${weekdays.map(day => ICAL_WEEKDAYS[day]).join(',')}`);
+  }
+  if (rule.freq === 'monthly') {
+    const day = rule.byMonthDay ?? dueDate.getDate();
+    // その月に無い日は月末にする（29日以降は「その日までの候補のうち最後の日」で表す）
+    if (day > 28) {
+      parts.push(`BYMONTHDAY=${Array.from({ length: day - 27 }, (_, i) => 28 + i).join(',')}`, 'BYSETPOS=-1');
+    } else {
+      parts.push(`BYMONTHDAY=${day}`);
+    }
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}T235959`);
+  return parts.join(';');
+}
+
+// タスクを VTODO として書き出す。繰り返しは完了していない回にだけ RRULE を付ける
+export function exportICalendar(todos: ICalTodo[], now = new Date()) {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//nanobase//todo-app//JA', 'CALSCALE:GREGORIAN'];
+  for (const todo of todos) {
+    const due = todo.dueDate;
+    const recurrence = todo.completed ? undefined : todo.recurrence;
+    // RRULE の起点として DTSTART が必要。DUE より前である必要があるので期限の日の0時にし、
+    // 期限がちょうど0時のときは DUE を書かずに DTSTART だけで期限を表す
+    const start = startOfDay(due);
+    lines.push(
+      'BEGIN:VTODO',
+      `UID:${todo.uid}@todo-app`,
+      `DTSTAMP:${formatUtcDateTime(now)}`,
+      `SUMMARY:${escapeText(todo.title)}`,
+    );
+    if (!recurrence || start < due) lines.push(`DUE:${formatLocalDateTime(due)}`);
+    lines.push(
+      `PRIORITY:${todo.priority}`,
+      `STATUS:${todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+    );
+    if (todo.categories.length > 0) lines.push(`CATEGORIES:${todo.categories.map(escapeText).join(',')}`);
+    if (recurrence) lines.push(`DTSTART:${formatLocalDateTime(start)}`, `RRULE:${toRRule(recurrence, due)}`);
+    lines.push('END:VTODO');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
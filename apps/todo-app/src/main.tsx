@@ -1,97 +1,264 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
+import { createClient, defineCollection, downloadFile, isLocalId, memberSchema, runOptimistic, s, type CollectionRecord, type Infer, type Member, type RecordChanges } from 'nanobase-client';
+import { exportICalendar, type ICalTodo } from './ical';
+import { WEEKDAY_LABELS, formatRecurrence, nextDueDate, pad, recurrenceSchema, startOfDay, toLocalDate, type Recurrence } from './recurrence';
+import { CHANNELS, DEFAULT_SETTINGS, cancelReminders, cancelRemovedReminders, formatLeadTime, hasStaleReminders, notificationSettingsSchema, reminderSchema, syncReminders, type Channel, type NotificationSettings, type Reminder } from './reminders';
+import { assigneeCandidates, canEditTodo, isMine, roleOf, type ListRole } from './sharing';
 
 // API設定（環境変数で上書き可能）
-const API_CONFIG = {
-  easyauthUrl: import.meta.env.VITE_EASYAUTH_URL || 'http://localhost:3201',
-  pocketdataUrl: import.meta.env.VITE_POCKETDATA_URL || 'http://localhost:3202',
-  noticoUrl: import.meta.env.VITE_NOTICO_URL || 'http://localhost:3203',
+const { auth, data, notify } = createClient({
   projectId: import.meta.env.VITE_PROJECT_ID || 'todo-app',
-};
+  // オフライン中の変更は端末に保存して、再接続時に送信する
+  offline: true,
+  urls: {
+    easyauth: import.meta.env.VITE_EASYAUTH_URL,
+    pocketdata: import.meta.env.VITE_POCKETDATA_URL,
+    notico: import.meta.env.VITE_NOTICO_URL,
+  },
+});
 
 // ==========================================
-// API クライアント（シンプル実装）
+// コレクション定義
 // ==========================================
-const TOKEN_KEY = 'nanobase_token';
-
-async function apiFetch<T>(url: string, options: RequestInit = {}): Promise<{ success: boolean; data?: T; error?: { message: string } }> {
-  const token = localStorage.getItem(TOKEN_KEY);
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'X-Project-Id': API_CONFIG.projectId,
-    ...(options.headers as Record<string, string>),
-  };
-  if (token) headers['Authorization'] = `Bearer ${token}`;
+const PRIORITIES = ['high', 'medium', 'low'] as const;
+type Priority = typeof PRIORITIES[number];
+
+const PRIORITY_LABELS: Record<Priority, string> = { high: '高', medium: '中', low: '低' };
+const PRIORITY_COLORS: Record<Priority, string> = { high: '#dc3545', medium: '#e67e22', low: '#6c757d' };
+
+const CHANNEL_LABELS: Record<Channel, string> = { email: 'メール', push: 'Webプッシュ', in_app: 'アプリ内' };
+
+// ユーザーごとに1件だけ作る通知設定
+const settingsCollection = defineCollection('notification_settings', notificationSettingsSchema);
+
+// 割り当て通知を担当者が選んだ方法で送れるよう、通知方法だけを他のユーザーに公開する
+// （通知しない時間帯などは本人しか読めない notification_settings に残す）
+const channelsCollection = defineCollection('notification_channels', s.object({
+  ownerId: s.string(),
+  channels: s.array(s.literal(...CHANNELS)),
+}));
+
+type SettingsRecord = CollectionRecord<typeof settingsCollection>;
+
+const LEAD_TIME_OPTIONS = [10, 60, 3 * 60, 24 * 60, 2 * 24 * 60, 7 * 24 * 60];
+
+const subtaskSchema = s.object({
+  id: s.string(),
+  title: s.string(),
+  completed: s.boolean(),
+});
+
+type Subtask = Infer<typeof subtaskSchema>;
+
+// リストは members に招待したユーザーと共有できる
+const listsCollection = defineCollection('todo_lists', s.object({
+  name: s.string(),
+  // 共有相手に作成者を表示するため
+  ownerEmail: s.optional(s.string()),
+  members: s.optional(s.array(memberSchema)),
+  createdAt: s.string(),
+}));
+
+const todosCollection = defineCollection('todos', s.object({
+  title: s.string(),
+  completed: s.boolean(),
+  dueDate: s.optional(s.string()),
+  // 優先度・タグ・リストは後から追加した項目なので、古いタスクには無い
+  priority: s.optional(s.literal(...PRIORITIES)),
+  tags: s.optional(s.array(s.string())),
+  listId: s.optional(s.string()),
+  recurrence: s.optional(recurrenceSchema),
+  // 同じ繰り返しから生成されたタスクに共通のID
+  seriesId: s.optional(s.string()),
+  subtasks: s.optional(s.array(subtaskSchema)),
+  // サブタスクがすべて完了したら、このタスクも完了にする
+  completeWithSubtasks: s.optional(s.boolean()),
+  // 共有リストのタスクの担当者
+  assigneeId: s.optional(s.string()),
+  assigneeEmail: s.optional(s.string()),
+  // Notico に登録したリマインダー（変更・取り消し用）
+  reminders: s.optional(s.array(reminderSchema)),
+  // 共有リストの他のメンバーが完了した繰り返しタスク。次の回は作成者の端末で作る
+  nextPending: s.optional(s.boolean()),
+  createdAt: s.string(),
+  // 共有リストに入っているタスクは、リストのメンバーにも見える
+}));
 
-  const response = await fetch(url, { ...options, headers });
-  return response.json();
+type List = CollectionRecord<typeof listsCollection>;
+type Todo = CollectionRecord<typeof todosCollection>;
+
+// ==========================================
+// 共有と権限
+// ==========================================
+const ROLE_LABELS: Record<ListRole, string> = { owner: 'オーナー', editor: '編集できる', viewer: '閲覧のみ' };
+
+// 自分の通知方法を公開用のレコードに反映する
+async function publishChannels(userId: string, channels: Channel[]) {
+  const result = await data.list(channelsCollection, { where: { ownerId: userId } });
+  if (!result.success) return;
+  const own = result.data?.find(r => isMine(r, userId));
+  if (!own) await data.create(channelsCollection, { ownerId: userId, channels });
+  else if (JSON.stringify(own.data.channels) !== JSON.stringify(channels)) await data.update(channelsCollection, own.id, { channels });
 }
 
-// Auth API
-const auth = {
-  async signup(email: string, password: string) {
-    const result = await apiFetch<{ token: string; user: { id: string; email: string } }>(
-      `${API_CONFIG.easyauthUrl}/api/v1/auth/signup-email`,
-      { method: 'POST', body: JSON.stringify({ email, password }) }
-    );
-    if (result.success && result.data) localStorage.setItem(TOKEN_KEY, result.data.token);
-    return result;
-  },
-  async login(email: string, password: string) {
-    const result = await apiFetch<{ token: string; user: { id: string; email: string } }>(
-      `${API_CONFIG.easyauthUrl}/api/v1/auth/login-email`,
-      { method: 'POST', body: JSON.stringify({ email, password }) }
-    );
-    if (result.success && result.data) localStorage.setItem(TOKEN_KEY, result.data.token);
-    return result;
-  },
-  async me() {
-    return apiFetch<{ id: string; email: string }>(`${API_CONFIG.easyauthUrl}/api/v1/auth/me`);
-  },
-  async logout() {
-    localStorage.removeItem(TOKEN_KEY);
-    await apiFetch(`${API_CONFIG.easyauthUrl}/api/v1/auth/logout`, { method: 'POST' });
-  },
-  isLoggedIn() {
-    return !!localStorage.getItem(TOKEN_KEY);
-  },
-};
+// 割り当てたことを担当者にすぐ知らせる（担当者が選んだ通知方法で。設定していなければメール）
+async function notifyAssignee(assigneeId: string, assignerEmail: string, title: string) {
+  const result = await data.list(channelsCollection, { where: { ownerId: assigneeId } });
+  // 通知方法が分からないときは、通知を止めている人に送らないよう何もしない
+  if (!result.success) return;
+  // ownerId は誰でも書けるので、サーバーが付けた userId で本人のレコードか確かめる
+  const published = result.data?.find(r => r.userId === assigneeId);
+  const channels = published ? published.data.channels : DEFAULT_SETTINGS.channels;
+  await Promise.all(channels.map(channel => notify.schedule({
+    userId: assigneeId,
+    type: channel,
+    subject: 'タスクの割り当て',
+    message: `${assignerEmail} さんが「${title}」をあなたに割り当てました`,
+    scheduledAt: new Date().toISOString(),
+  })));
+}
 
-// Data API
-const data = {
-  async list(collection: string) {
-    return apiFetch<Array<{ id: string; data: Record<string, unknown> }>>(
-      `${API_CONFIG.pocketdataUrl}/api/v1/data/${collection}`
-    );
-  },
-  async create(collection: string, record: Record<string, unknown>) {
-    return apiFetch(`${API_CONFIG.pocketdataUrl}/api/v1/data/${collection}`, {
-      method: 'POST',
-      body: JSON.stringify(record),
-    });
-  },
-  async update(collection: string, id: string, record: Record<string, unknown>) {
-    return apiFetch(`${API_CONFIG.pocketdataUrl}/api/v1/data/${collection}/${id}`, {
-      method: 'PATCH',
-      body: JSON.stringify(record),
-    });
-  },
-  async delete(collection: string, id: string) {
-    return apiFetch(`${API_CONFIG.pocketdataUrl}/api/v1/data/${collection}/${id}`, {
-      method: 'DELETE',
-    });
-  },
-};
+// ==========================================
+// 絞り込み
+// ==========================================
+type StatusFilter = 'all' | 'active' | 'completed';
 
-// Notico API (通知)
-const notify = {
-  async schedule(options: { userId: string; type: string; subject: string; message: string; scheduledAt: string }) {
-    return apiFetch(`${API_CONFIG.noticoUrl}/api/v1/notifications/schedule`, {
-      method: 'POST',
-      body: JSON.stringify(options),
-    });
-  },
-};
+interface TodoFilter {
+  // null はすべてのリスト、INBOX は未分類
+  listId: string | null;
+  tag: string | null;
+  status: StatusFilter;
+}
+
+const INBOX = '';
+
+const STATUS_LABELS: Record<StatusFilter, string> = { all: 'すべて', active: '未完了', completed: '完了' };
+
+const priorityOf = (todo: Todo): Priority => todo.data.priority || 'medium';
+
+// 削除済みのリストを指しているタスクも未分類として扱う
+const listIdOf = (todo: Todo, lists: List[]) =>
+  todo.data.listId && lists.some(list => list.id === todo.data.listId) ? todo.data.listId : INBOX;
+
+function filterTodos(todos: Todo[], lists: List[], filter: TodoFilter) {
+  return todos.filter(todo => {
+    if (filter.listId !== null && listIdOf(todo, lists) !== filter.listId) return false;
+    if (filter.tag && !(todo.data.tags || []).includes(filter.tag)) return false;
+    if (filter.status === 'active' && todo.data.completed) return false;
+    if (filter.status === 'completed' && !todo.data.completed) return false;
+    return true;
+  });
+}
+
+function countSubtasks(todos: Todo[]) {
+  const subtasks = todos.flatMap(todo => todo.data.subtasks || []);
+  return { total: subtasks.length, completed: subtasks.filter(subtask => subtask.completed).length };
+}
+
+const collectTags = (todos: Todo[]) =>
+  [...new Set(todos.flatMap(todo => todo.data.tags || []))].sort((a, b) => a.localeCompare(b, 'ja'));
+
+// 「買い物, 週末」のようにカンマ・読点・空白で区切って入力する
+const parseTags = (text: string) => [...new Set(text.split(/[,、，\s]+/).map(tag => tag.trim()).filter(Boolean))];
+
+// <input type="datetime-local"> は端末のタイムゾーンの "YYYY-MM-DDTHH:mm" を扱う
+function toLocalInput(iso?: string) {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return `${toLocalDate(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// ==========================================
+// Webプッシュ
+// ==========================================
+const SERVICE_WORKER_URL = '/sw.js';
+
+const isPushSupported = () => 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// この端末の購読。未対応・未購読なら null
+async function getPushSubscription() {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+// 通知の許可をもらって購読し、Notico に登録する。できなかったら理由を返す
+async function subscribePush(): Promise<string | null> {
+  if (!isPushSupported()) return 'このブラウザはWebプッシュに対応していません';
+  if ((await Notification.requestPermission()) !== 'granted') return 'ブラウザの通知が許可されていません';
+  const key = await notify.getPushPublicKey();
+  if (!key.success || !key.data) return `Webプッシュを有効にできませんでした: ${key.error?.message || 'エラーが発生しました'}`;
+  try {
+    const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    const subscription = await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: key.data.publicKey });
+    const result = await notify.registerPush(subscription.toJSON());
+    if (result.success) return null;
+    await subscription.unsubscribe();
+    return `Webプッシュを有効にできませんでした: ${result.error?.message || 'エラーが発生しました'}`;
+  } catch {
+    return 'このブラウザでWebプッシュを購読できませんでした';
+  }
+}
+
+// ログアウトしたあとに、前のユーザーの通知がこの端末に届かないようにする
+async function unsubscribePush() {
+  const subscription = await getPushSubscription().catch(() => null);
+  if (!subscription) return;
+  await notify.unregisterPush(subscription.endpoint);
+  await subscription.unsubscribe().catch(() => undefined);
+}
+
+// ==========================================
+// カレンダー
+// ==========================================
+type TodoView = 'list' | 'month' | 'week' | 'agenda';
+
+const VIEW_LABELS: Record<TodoView, string> = { list: 'リスト', month: '月', week: '週', agenda: '予定' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const startOfWeek = (date: Date) => addDays(date, -date.getDay());
+
+// 期限のあるタスクを端末の日付（YYYY-MM-DD）ごとにまとめる。日の中は期限の早い順
+function groupByDueDate(todos: Todo[]) {
+  const groups = new Map<string, Todo[]>();
+  const dated = todos.filter(todo => todo.data.dueDate).sort((a, b) => a.data.dueDate!.localeCompare(b.data.dueDate!));
+  for (const todo of dated) {
+    const key = toLocalDate(new Date(todo.data.dueDate!));
+    groups.set(key, [...(groups.get(key) || []), todo]);
+  }
+  return groups;
+}
+
+// 時刻はそのままで、期限の日付だけを day に移す
+function moveToDay(dueDate: string, day: Date) {
+  const due = new Date(dueDate);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), due.getHours(), due.getMinutes()).toISOString();
+}
+
+// ==========================================
+// iCalendar 書き出し
+// ==========================================
+const ICAL_PRIORITIES: Record<Priority, number> = { high: 1, medium: 5, low: 9 };
+
+// 期限のあるタスクだけを書き出す。カテゴリにはリスト名とタグを入れる
+function toICalTodos(todos: Todo[], lists: List[]): ICalTodo[] {
+  return todos.filter(todo => todo.data.dueDate).map(todo => {
+    const list = lists.find(l => l.id === listIdOf(todo, lists));
+    return {
+      uid: todo.id,
+      title: todo.data.title,
+      dueDate: new Date(todo.data.dueDate!),
+      priority: ICAL_PRIORITIES[priorityOf(todo)],
+      completed: todo.data.completed,
+      categories: [...new Set([...(list ? [list.data.name] : []), ...(todo.data.tags || [])])],
+      recurrence: todo.data.recurrence,
+    };
+  });
+}
 
 // ==========================================
 // スタイル
@@ -110,19 +277,33 @@ const styles = {
   completed: { textDecoration: 'line-through', color: '#999' },
   checkbox: { width: '20px', height: '20px', cursor: 'pointer' },
   error: { color: 'red', marginBottom: '10px' },
+  toast: { position: 'fixed' as const, bottom: '20px', left: '50%', transform: 'translateX(-50%)', background: '#dc3545', color: 'white', padding: '10px 20px', borderRadius: '4px', boxShadow: '0 2px 8px rgba(0,0,0,0.2)', cursor: 'pointer', zIndex: 1000 },
+  syncStatus: { fontSize: '12px', color: '#666', marginTop: '8px' },
   stats: { display: 'flex', gap: '20px', justifyContent: 'center', marginBottom: '20px' },
   stat: { textAlign: 'center' as const },
+  row: { display: 'flex', gap: '10px', alignItems: 'center' },
+  chips: { display: 'flex', flexWrap: 'wrap' as const, gap: '6px', marginBottom: '10px' },
+  chip: { padding: '4px 12px', border: '1px solid #ddd', borderRadius: '16px', background: 'white', cursor: 'pointer', fontSize: '13px' },
+  chipActive: { background: '#0066cc', borderColor: '#0066cc', color: 'white' },
+  tag: { display: 'inline-block', padding: '1px 8px', marginRight: '4px', borderRadius: '10px', background: '#eef4fb', color: '#0066cc', fontSize: '12px' },
+  priority: { display: 'inline-block', padding: '1px 6px', marginRight: '6px', borderRadius: '4px', color: 'white', fontSize: '11px', fontWeight: 'bold' as const },
+  buttonSmall: { padding: '6px 12px', background: '#666', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '14px' },
+  listStats: { width: '100%', borderCollapse: 'collapse' as const, fontSize: '14px' },
+  progress: { height: '6px', background: '#eee', borderRadius: '3px', overflow: 'hidden' },
+  progressBar: { height: '100%', background: '#28a745' },
+  calendarGrid: { display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: '2px' },
+  calendarHead: { textAlign: 'center' as const, fontSize: '12px', color: '#666', padding: '4px 0' },
+  calendarCell: { minHeight: '80px', padding: '4px', background: '#f8f9fa', borderRadius: '4px', fontSize: '12px', overflow: 'hidden' },
+  calendarChip: { display: 'flex', alignItems: 'center', gap: '2px', padding: '2px 4px', marginTop: '2px', borderRadius: '3px', background: 'white', borderLeft: '3px solid', cursor: 'grab', whiteSpace: 'nowrap' as const, overflow: 'hidden', textOverflow: 'ellipsis' },
+  dropTarget: { outline: '2px dashed #0066cc' },
+  agendaHeader: { padding: '8px 10px', background: '#f8f9fa', borderRadius: '4px', fontWeight: 'bold' as const, marginTop: '10px' },
+  link: { padding: 0, background: 'transparent', border: 'none', color: '#0066cc', cursor: 'pointer', fontSize: '12px' },
 };
 
 // ==========================================
 // コンポーネント
 // ==========================================
-interface Todo {
-  id: string;
-  data: { title: string; completed: boolean; dueDate?: string; userId: string; createdAt: string };
-}
-
-function AuthForm({ onLogin }: { onLogin: () => void }) {
+function AuthForm({ onLogin, notice }: { onLogin: () => void; notice?: string }) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isSignup, setIsSignup] = useState(false);
@@ -147,6 +328,7 @@ function AuthForm({ onLogin }: { onLogin: () => void }) {
   return (
     <div style={styles.card}>
       <h2>{isSignup ? '新規登録' : 'ログイン'}</h2>
+      {notice && !error && <p style={styles.error}>{notice}</p>}
       {error && <p style={styles.error}>{error}</p>}
       <form onSubmit={handleSubmit} style={styles.form}>
         <input type="email" placeholder="メールアドレス" value={email} onChange={e => setEmail(e.target.value)} style={styles.input} required />
@@ -162,48 +344,210 @@ function AuthForm({ onLogin }: { onLogin: () => void }) {
   );
 }
 
-function TodoForm({ userId, onAdd }: { userId: string; onAdd: () => void }) {
+// 同期前のリストはサーバーのIDが決まっていないため、タスクの移動先に選べない
+function ListSelect({ lists, userId, value, onChange }: { lists: List[]; userId: string; value: string; onChange: (listId: string) => void }) {
+  return (
+    <select value={value} onChange={e => onChange(e.target.value)} style={styles.input}>
+      <option value={INBOX}>未分類</option>
+      {lists.map(list => {
+        const readOnly = roleOf(list, userId) === 'viewer';
+        return (
+          <option key={list.id} value={list.id} disabled={isLocalId(list.id) || readOnly}>
+            {list.data.name}{isLocalId(list.id) ? '（同期待ち）' : readOnly ? '（閲覧のみ）' : ''}
+          </option>
+        );
+      })}
+    </select>
+  );
+}
+
+function AssigneeSelect({ list, value, onChange }: { list: List; value: string; onChange: (userId: string) => void }) {
+  return (
+    <select value={value} onChange={e => onChange(e.target.value)} style={styles.input}>
+      <option value="">担当者なし</option>
+      {assigneeCandidates(list).map(candidate => (
+        <option key={candidate.userId} value={candidate.userId}>担当: {candidate.email}</option>
+      ))}
+    </select>
+  );
+}
+
+function PrioritySelect({ value, onChange }: { value: Priority; onChange: (priority: Priority) => void }) {
+  return (
+    <select value={value} onChange={e => onChange(e.target.value as Priority)} style={styles.input}>
+      {PRIORITIES.map(priority => <option key={priority} value={priority}>優先度: {PRIORITY_LABELS[priority]}</option>)}
+    </select>
+  );
+}
+
+function RecurrenceFields({ value, dueDate, onChange }: {
+  value: Recurrence | null;
+  dueDate: string;
+  onChange: (rule: Recurrence | null) => void;
+}) {
+  // 曜日・日付の初期値は期限から取る
+  const base = dueDate ? new Date(dueDate) : new Date();
+
+  const changeFreq = (freq: string) => {
+    if (freq === 'none') return onChange(null);
+    const rule: Recurrence = { freq: freq as Recurrence['freq'], interval: value?.interval || 1 };
+    if (rule.freq === 'weekly') rule.byWeekday = [base.getDay()];
+    if (rule.freq === 'monthly') rule.byMonthDay = base.getDate();
+    if (value?.until) rule.until = value.until;
+    onChange(rule);
+  };
+
+  if (!value) {
+    return (
+      <select value="none" onChange={e => changeFreq(e.target.value)} style={styles.input}>
+        <option value="none">繰り返しなし</option>
+        <option value="daily">日ごとに繰り返す</option>
+        <option value="weekly">週ごとに繰り返す</option>
+        <option value="monthly">月ごとに繰り返す</option>
+      </select>
+    );
+  }
+
+  const unit = value.freq === 'daily' ? '日' : value.freq === 'weekly' ? '週' : 'か月';
+  const weekdays = value.byWeekday || [];
+
+  return (
+    <div style={{ ...styles.form, padding: '10px', background: '#f8f9fa', borderRadius: '4px' }}>
+      <div style={styles.row}>
+        <select value={value.freq} onChange={e => changeFreq(e.target.value)} style={styles.input}>
+          <option value="none">繰り返しなし</option>
+          <option value="daily">日ごと</option>
+          <option value="weekly">週ごと</option>
+          <option value="monthly">月ごと</option>
+        </select>
+        <input
+          type="number"
+          min={1}
+          value={value.interval}
+          onChange={e => onChange({ ...value, interval: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+          style={{ ...styles.input, width: '70px' }}
+        />
+        <span>{unit}ごと</span>
+      </div>
+      {value.freq === 'weekly' && (
+        <div style={styles.chips}>
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => onChange({
+                ...value,
+                byWeekday: weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day].sort((a, b) => a - b),
+              })}
+              style={{ ...styles.chip, ...(weekdays.includes(day) ? styles.chipActive : {}) }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      {value.freq === 'monthly' && (
+        <label style={styles.row}>
+          毎回
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={value.byMonthDay ?? base.getDate()}
+            onChange={e => onChange({ ...value, byMonthDay: Math.min(31, Math.max(1, Math.floor(Number(e.target.value)) || 1)) })}
+            style={{ ...styles.input, width: '70px' }}
+          />
+          日
+        </label>
+      )}
+      <label style={styles.row}>
+        終了日
+        <input
+          type="date"
+          value={value.until || ''}
+          onChange={e => onChange({ ...value, until: e.target.value || undefined })}
+          style={styles.input}
+        />
+      </label>
+    </div>
+  );
+}
+
+function ReminderSummary({ settings, onOpenSettings }: { settings: NotificationSettings; onOpenSettings: () => void }) {
+  const enabled = settings.channels.length > 0 && settings.leadTimes.length > 0;
+  return (
+    <small style={{ color: '#666' }}>
+      {enabled
+        ? `リマインダー: ${settings.leadTimes.map(minutes => `${formatLeadTime(minutes)}前`).join('・')}（${settings.channels.map(channel => CHANNEL_LABELS[channel]).join('・')}）`
+        : 'リマインダー: 送らない'}
+      <button type="button" onClick={onOpenSettings} style={{ ...styles.link, marginLeft: '8px' }}>変更</button>
+    </small>
+  );
+}
+
+function TodoForm({ userId, lists, defaultListId, settings, onOpenSettings, onAdd }: {
+  userId: string;
+  lists: List[];
+  defaultListId: string;
+  settings: NotificationSettings;
+  onOpenSettings: () => void;
+  onAdd: () => void;
+}) {
   const [title, setTitle] = useState('');
   const [dueDate, setDueDate] = useState('');
+  const [priority, setPriority] = useState<Priority>('medium');
+  const [tags, setTags] = useState('');
+  const [listId, setListId] = useState(defaultListId);
+  const [recurrence, setRecurrence] = useState<Recurrence | null>(null);
+  const [error, setError] = useState('');
+
+  // 表示中のリストに追加する
+  useEffect(() => setListId(defaultListId), [defaultListId]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setError('');
+    let reminders: Reminder[] = [];
     try {
-      const todoData: Record<string, unknown> = {
+      const todoData: Todo['data'] = {
         title,
         completed: false,
-        userId,
+        priority,
+        tags: parseTags(tags),
         createdAt: new Date().toISOString(),
       };
-      if (dueDate) {
-        todoData.dueDate = new Date(dueDate).toISOString();
-        // リマインダーを設定（1日前）
-        const reminderTime = new Date(new Date(dueDate).getTime() - 24 * 60 * 60 * 1000);
-        if (reminderTime > new Date()) {
-          await notify.schedule({
-            userId,
-            type: 'email',
-            subject: 'タスクリマインダー',
-            message: `「${title}」の期限が明日です`,
-            scheduledAt: reminderTime.toISOString(),
-          });
-        }
+      if (listId) todoData.listId = listId;
+      if (dueDate) todoData.dueDate = new Date(dueDate).toISOString();
+      if (recurrence && dueDate) {
+        todoData.recurrence = recurrence;
+        todoData.seriesId = crypto.randomUUID();
       }
+      reminders = await syncReminders(notify, userId, todoData, settings);
+      if (reminders.length > 0) todoData.reminders = reminders;
 
-      const result = await data.create('todos', todoData);
+      const result = await data.create(todosCollection, todoData);
       if (result.success) {
         setTitle('');
         setDueDate('');
+        setPriority('medium');
+        setTags('');
+        setRecurrence(null);
         onAdd();
+      } else {
+        await cancelReminders(notify, reminders);
+        setError(result.error?.message || 'タスクを追加できませんでした');
       }
-    } catch (err) {
-      console.error('Todo create error:', err);
+    } catch {
+      // 登録済みのリマインダーが残らないよう取り消す
+      await cancelReminders(notify, reminders).catch(() => undefined);
+      setError('通信エラーが発生しました');
     }
   };
 
   return (
     <div style={styles.card}>
       <h2>タスクを追加</h2>
+      {error && <p style={styles.error}>{error}</p>}
       <form onSubmit={handleSubmit} style={styles.form}>
         <input
           type="text"
@@ -218,6 +562,21 @@ function TodoForm({ userId, onAdd }: { userId: string; onAdd: () => void }) {
           value={dueDate}
           onChange={e => setDueDate(e.target.value)}
           style={styles.input}
+          // 繰り返しは期限を起点に計算する
+          required={recurrence !== null}
+        />
+        {dueDate && <ReminderSummary settings={settings} onOpenSettings={onOpenSettings} />}
+        <RecurrenceFields value={recurrence} dueDate={dueDate} onChange={setRecurrence} />
+        <div style={styles.row}>
+          <PrioritySelect value={priority} onChange={setPriority} />
+          <ListSelect lists={lists} userId={userId} value={listId} onChange={setListId} />
+        </div>
+        <input
+          type="text"
+          placeholder="タグ（カンマ区切り）"
+          value={tags}
+          onChange={e => setTags(e.target.value)}
+          style={styles.input}
         />
         <button type="submit" style={styles.button}>追加</button>
       </form>
@@ -225,73 +584,862 @@ function TodoForm({ userId, onAdd }: { userId: string; onAdd: () => void }) {
   );
 }
 
-function TodoList({ todos, onToggle, onDelete }: { todos: Todo[]; onToggle: (id: string, completed: boolean) => void; onDelete: (id: string) => void }) {
-  if (todos.length === 0) return <p style={{ textAlign: 'center', color: '#666' }}>タスクがありません</p>;
+const formatDate = (dateStr?: string) => {
+  if (!dateStr) return '';
+  const date = new Date(dateStr);
+  return date.toLocaleDateString('ja-JP', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
 
-  const formatDate = (dateStr?: string) => {
-    if (!dateStr) return '';
-    const date = new Date(dateStr);
-    return date.toLocaleDateString('ja-JP', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+const isOverdue = (dueDate?: string) => {
+  if (!dueDate) return false;
+  return new Date(dueDate) < new Date();
+};
+
+function TodoEditor({ todo, lists, userId, onSave, onCancel }: {
+  todo: Todo;
+  lists: List[];
+  userId: string;
+  onSave: (changes: RecordChanges<Todo['data']>) => void;
+  onCancel: () => void;
+}) {
+  const [title, setTitle] = useState(todo.data.title);
+  const [dueDate, setDueDate] = useState(toLocalInput(todo.data.dueDate));
+  const [priority, setPriority] = useState(priorityOf(todo));
+  const [tags, setTags] = useState((todo.data.tags || []).join(', '));
+  const [listId, setListId] = useState(listIdOf(todo, lists));
+  const [recurrence, setRecurrence] = useState<Recurrence | null>(todo.data.recurrence || null);
+  const [completeWithSubtasks, setCompleteWithSubtasks] = useState(!!todo.data.completeWithSubtasks);
+  const [assigneeId, setAssigneeId] = useState(todo.data.assigneeId || '');
+
+  // 担当者は共有しているリストのタスクにだけ付けられる
+  const list = lists.find(l => l.id === listId);
+  const candidates = list?.data.members?.length ? assigneeCandidates(list) : [];
+  const assignee = candidates.find(candidate => candidate.userId === assigneeId);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    const changes: RecordChanges<Todo['data']> = {
+      title: title.trim(),
+      // 空にした項目は null を送って削除する
+      dueDate: dueDate ? new Date(dueDate).toISOString() : null,
+      priority,
+      tags: parseTags(tags),
+      listId: listId || null,
+      recurrence: dueDate ? recurrence : null,
+      completeWithSubtasks: completeWithSubtasks || null,
+      assigneeId: assignee?.userId ?? null,
+      assigneeEmail: assignee?.email ?? null,
+    };
+    if (changes.recurrence && !todo.data.seriesId) changes.seriesId = crypto.randomUUID();
+    onSave(changes);
   };
 
-  const isOverdue = (dueDate?: string) => {
-    if (!dueDate) return false;
-    return new Date(dueDate) < new Date();
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onKeyDown={e => e.key === 'Escape' && onCancel()}
+      style={{ ...styles.form, padding: '10px', borderBottom: '1px solid #eee' }}
+    >
+      <input type="text" value={title} onChange={e => setTitle(e.target.value)} style={styles.input} autoFocus required />
+      <input type="datetime-local" value={dueDate} onChange={e => setDueDate(e.target.value)} style={styles.input} required={recurrence !== null} />
+      <RecurrenceFields value={recurrence} dueDate={dueDate} onChange={setRecurrence} />
+      <div style={styles.row}>
+        <PrioritySelect value={priority} onChange={setPriority} />
+        <ListSelect lists={lists} userId={userId} value={listId} onChange={setListId} />
+      </div>
+      {list && candidates.length > 0 && <AssigneeSelect list={list} value={assignee?.userId || ''} onChange={setAssigneeId} />}
+      <input type="text" placeholder="タグ（カンマ区切り）" value={tags} onChange={e => setTags(e.target.value)} style={styles.input} />
+      <label style={styles.row}>
+        <input type="checkbox" checked={completeWithSubtasks} onChange={e => setCompleteWithSubtasks(e.target.checked)} style={styles.checkbox} />
+        サブタスクがすべて完了したら、このタスクも完了にする
+      </label>
+      <div style={styles.row}>
+        <button type="submit" style={styles.button}>保存</button>
+        <button type="button" onClick={onCancel} style={styles.buttonSecondary}>キャンセル</button>
+      </div>
+    </form>
+  );
+}
+
+function Checklist({ subtasks, readOnly, onChange }: { subtasks: Subtask[]; readOnly: boolean; onChange: (subtasks: Subtask[]) => void }) {
+  const [title, setTitle] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    onChange([...subtasks, { id: crypto.randomUUID(), title: title.trim(), completed: false }]);
+    setTitle('');
   };
 
   return (
-    <div style={styles.card}>
-      <h2>タスク一覧</h2>
-      {todos.map(todo => (
-        <div key={todo.id} style={styles.todoItem}>
+    <div style={{ margin: '6px 0 0 4px' }}>
+      {subtasks.map(subtask => (
+        <div key={subtask.id} style={{ ...styles.row, gap: '6px', fontSize: '14px' }}>
           <input
             type="checkbox"
-            checked={todo.data.completed}
-            onChange={() => onToggle(todo.id, !todo.data.completed)}
-            style={styles.checkbox}
+            checked={subtask.completed}
+            onChange={() => onChange(subtasks.map(s => (s.id === subtask.id ? { ...s, completed: !s.completed } : s)))}
+            disabled={readOnly}
           />
-          <div style={{ ...styles.todoText, ...(todo.data.completed ? styles.completed : {}) }}>
-            <div>{todo.data.title}</div>
-            {todo.data.dueDate && (
-              <small style={{ color: isOverdue(todo.data.dueDate) && !todo.data.completed ? 'red' : '#666' }}>
-                期限: {formatDate(todo.data.dueDate)}
-              </small>
-            )}
-          </div>
+          <span style={{ flex: 1, ...(subtask.completed ? styles.completed : {}) }}>{subtask.title}</span>
+          {!readOnly && <button onClick={() => onChange(subtasks.filter(s => s.id !== subtask.id))} style={styles.link} aria-label="サブタスクを削除">✕</button>}
+        </div>
+      ))}
+      {!readOnly && <form onSubmit={handleAdd} style={{ ...styles.row, gap: '6px', marginTop: '4px' }}>
+        <input
+          type="text"
+          placeholder="サブタスクを追加"
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          style={{ ...styles.input, flex: 1, padding: '4px 8px', fontSize: '14px' }}
+        />
+        <button type="submit" style={styles.buttonSmall}>追加</button>
+      </form>}
+    </div>
+  );
+}
+
+function SubtaskProgress({ subtasks, onClick }: { subtasks: Subtask[]; onClick: () => void }) {
+  const completed = subtasks.filter(subtask => subtask.completed).length;
+  return (
+    <button onClick={onClick} style={{ ...styles.link, display: 'inline-flex', alignItems: 'center', gap: '4px', marginRight: '8px' }}>
+      <span style={{ ...styles.progress, width: '40px', display: 'inline-block' }}>
+        <span style={{ ...styles.progressBar, display: 'block', width: `${(completed / subtasks.length) * 100}%` }} />
+      </span>
+      {completed}/{subtasks.length}
+    </button>
+  );
+}
+
+function TodoItem({ todo, lists, userId, showList, onToggle, onUpdate, onDelete }: {
+  todo: Todo;
+  lists: List[];
+  userId: string;
+  showList: boolean;
+  onToggle: (id: string, completed: boolean) => void;
+  onUpdate: (id: string, changes: RecordChanges<Todo['data']>) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [showSubtasks, setShowSubtasks] = useState(false);
+
+  if (editing) {
+    return (
+      <TodoEditor
+        todo={todo}
+        lists={lists}
+        userId={userId}
+        onSave={changes => {
+          onUpdate(todo.id, changes);
+          setEditing(false);
+        }}
+        onCancel={() => setEditing(false)}
+      />
+    );
+  }
+
+  const priority = priorityOf(todo);
+  const list = lists.find(l => l.id === listIdOf(todo, lists));
+  const subtasks = todo.data.subtasks || [];
+  const editable = canEditTodo(todo, lists, userId);
+
+  return (
+    <div style={styles.todoItem}>
+      <input
+        type="checkbox"
+        checked={todo.data.completed}
+        onChange={() => onToggle(todo.id, !todo.data.completed)}
+        style={styles.checkbox}
+        disabled={!editable}
+      />
+      <div style={styles.todoText}>
+        <div
+          onDoubleClick={() => editable && setEditing(true)}
+          title={editable ? 'ダブルクリックで編集' : '閲覧のみ'}
+          style={todo.data.completed ? styles.completed : {}}
+        >
+          <span style={{ ...styles.priority, background: PRIORITY_COLORS[priority] }}>{PRIORITY_LABELS[priority]}</span>
+          {todo.data.title}
+        </div>
+        {todo.data.dueDate && (
+          <small style={{ color: isOverdue(todo.data.dueDate) && !todo.data.completed ? 'red' : '#666', marginRight: '8px' }}>
+            期限: {formatDate(todo.data.dueDate)}
+          </small>
+        )}
+        {todo.data.recurrence && <small style={{ color: '#666', marginRight: '8px' }}>🔁 {formatRecurrence(todo.data.recurrence)}</small>}
+        {showList && list && <small style={{ color: '#666', marginRight: '8px' }}>📁 {list.data.name}</small>}
+        {todo.data.assigneeId && (
+          <small style={{ color: '#666', marginRight: '8px' }}>
+            👤 {todo.data.assigneeId === userId ? '自分' : todo.data.assigneeEmail}
+          </small>
+        )}
+        {(todo.data.tags || []).map(tag => <span key={tag} style={styles.tag}>#{tag}</span>)}
+        <div>
+          {subtasks.length > 0
+            ? <SubtaskProgress subtasks={subtasks} onClick={() => setShowSubtasks(!showSubtasks)} />
+            : editable && !showSubtasks && <button onClick={() => setShowSubtasks(true)} style={styles.link}>＋ サブタスク</button>}
+        </div>
+        {showSubtasks && (
+          <Checklist
+            subtasks={subtasks}
+            readOnly={!editable}
+            onChange={next => onUpdate(todo.id, { subtasks: next.length > 0 ? next : null })}
+          />
+        )}
+      </div>
+      {editable && (
+        <>
+          <button onClick={() => setEditing(true)} style={styles.buttonSmall}>編集</button>
           <button onClick={() => onDelete(todo.id)} style={styles.buttonDanger}>削除</button>
+        </>
+      )}
+    </div>
+  );
+}
+
+function TodoFilters({ todos, lists, filter, onChange }: {
+  todos: Todo[];
+  lists: List[];
+  filter: TodoFilter;
+  onChange: (changes: Partial<TodoFilter>) => void;
+}) {
+  const tags = collectTags(todos);
+  const chip = (active: boolean) => ({ ...styles.chip, ...(active ? styles.chipActive : {}) });
+
+  return (
+    <div style={styles.card}>
+      <div style={styles.chips}>
+        <button onClick={() => onChange({ listId: null })} style={chip(filter.listId === null)}>すべてのリスト</button>
+        <button onClick={() => onChange({ listId: INBOX })} style={chip(filter.listId === INBOX)}>未分類</button>
+        {lists.map(list => (
+          <button key={list.id} onClick={() => onChange({ listId: list.id })} style={chip(filter.listId === list.id)}>
+            📁 {list.data.name}
+          </button>
+        ))}
+      </div>
+      <div style={styles.chips}>
+        {(Object.keys(STATUS_LABELS) as StatusFilter[]).map(status => (
+          <button key={status} onClick={() => onChange({ status })} style={chip(filter.status === status)}>
+            {STATUS_LABELS[status]}
+          </button>
+        ))}
+      </div>
+      {tags.length > 0 && (
+        <div style={{ ...styles.chips, marginBottom: 0 }}>
+          {tags.map(tag => (
+            <button key={tag} onClick={() => onChange({ tag: filter.tag === tag ? null : tag })} style={chip(filter.tag === tag)}>
+              #{tag}
+            </button>
+          ))}
         </div>
+      )}
+    </div>
+  );
+}
+
+function TodoList({ todos, lists, userId, showList, onToggle, onUpdate, onDelete }: {
+  todos: Todo[];
+  lists: List[];
+  userId: string;
+  showList: boolean;
+  onToggle: (id: string, completed: boolean) => void;
+  onUpdate: (id: string, changes: RecordChanges<Todo['data']>) => void;
+  onDelete: (id: string) => void;
+}) {
+  if (todos.length === 0) return <p style={{ textAlign: 'center', color: '#666' }}>タスクがありません</p>;
+
+  return (
+    <div style={styles.card}>
+      <h2>タスク一覧</h2>
+      {todos.map(todo => (
+        <TodoItem
+          key={todo.id}
+          todo={todo}
+          lists={lists}
+          userId={userId}
+          showList={showList}
+          onToggle={onToggle}
+          onUpdate={onUpdate}
+          onDelete={onDelete}
+        />
       ))}
     </div>
   );
 }
 
-function Stats({ todos }: { todos: Todo[] }) {
-  const total = todos.length;
-  const completed = todos.filter(t => t.data.completed).length;
-  const pending = total - completed;
+function ViewSwitcher({ view, onChange, onExport }: { view: TodoView; onChange: (view: TodoView) => void; onExport: () => void }) {
+  return (
+    <div style={{ ...styles.chips, alignItems: 'center' }}>
+      {(Object.keys(VIEW_LABELS) as TodoView[]).map(v => (
+        <button key={v} onClick={() => onChange(v)} style={{ ...styles.chip, ...(view === v ? styles.chipActive : {}) }}>
+          {VIEW_LABELS[v]}
+        </button>
+      ))}
+      <button onClick={onExport} style={{ ...styles.link, marginLeft: 'auto', fontSize: '13px' }}>📅 .ics で書き出し</button>
+    </div>
+  );
+}
+
+// ドラッグしたタスクを落とすと、その日に期限を移す
+function DayDropZone({ day, onReschedule, style, children }: {
+  day: Date;
+  onReschedule: (id: string, day: Date) => void;
+  style: React.CSSProperties;
+  children: React.ReactNode;
+}) {
+  const [over, setOver] = useState(false);
+  return (
+    <div
+      onDragOver={e => {
+        e.preventDefault();
+        setOver(true);
+      }}
+      onDragLeave={() => setOver(false)}
+      onDrop={e => {
+        e.preventDefault();
+        setOver(false);
+        const id = e.dataTransfer.getData('text/plain');
+        if (id) onReschedule(id, day);
+      }}
+      style={{ ...style, ...(over ? styles.dropTarget : {}) }}
+    >
+      {children}
+    </div>
+  );
+}
+
+const startDrag = (id: string) => (e: React.DragEvent) => {
+  e.dataTransfer.setData('text/plain', id);
+  e.dataTransfer.effectAllowed = 'move';
+};
 
+function CalendarChip({ todo, editable, onToggle }: { todo: Todo; editable: boolean; onToggle: (id: string, completed: boolean) => void }) {
+  const overdue = isOverdue(todo.data.dueDate) && !todo.data.completed;
   return (
-    <div style={styles.stats}>
-      <div style={styles.stat}>
-        <div style={{ fontSize: '24px', fontWeight: 'bold' }}>{total}</div>
-        <div style={{ fontSize: '12px', color: '#666' }}>合計</div>
+    <div
+      draggable={editable}
+      onDragStart={startDrag(todo.id)}
+      title={`${todo.data.title}（${formatDate(todo.data.dueDate)}）`}
+      style={{
+        ...styles.calendarChip,
+        borderLeftColor: PRIORITY_COLORS[priorityOf(todo)],
+        ...(overdue ? { color: 'red' } : {}),
+        ...(todo.data.completed ? styles.completed : {}),
+      }}
+    >
+      <input type="checkbox" checked={todo.data.completed} onChange={() => onToggle(todo.id, !todo.data.completed)} disabled={!editable} />
+      {todo.data.title}
+    </div>
+  );
+}
+
+function CalendarView({ todos, lists, userId, mode, onToggle, onReschedule }: {
+  todos: Todo[];
+  lists: List[];
+  userId: string;
+  mode: 'month' | 'week';
+  onToggle: (id: string, completed: boolean) => void;
+  onReschedule: (id: string, day: Date) => void;
+}) {
+  const [cursor, setCursor] = useState(() => startOfDay(new Date()));
+  const today = toLocalDate(new Date());
+  const groups = groupByDueDate(todos);
+  const undated = todos.filter(todo => !todo.data.dueDate).length;
+
+  // 月表示は月初を含む週の日曜から、月末を含む週の土曜まで
+  const first = mode === 'month' ? startOfWeek(new Date(cursor.getFullYear(), cursor.getMonth(), 1)) : startOfWeek(cursor);
+  const last = mode === 'month' ? addDays(startOfWeek(new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0)), 6) : addDays(first, 6);
+  const days = Array.from({ length: Math.round((last.getTime() - first.getTime()) / DAY_MS) + 1 }, (_, i) => addDays(first, i));
+
+  const move = (step: number) =>
+    setCursor(prev => (mode === 'month' ? new Date(prev.getFullYear(), prev.getMonth() + step, 1) : addDays(prev, step * 7)));
+  const title = mode === 'month'
+    ? cursor.toLocaleDateString('ja-JP', { year: 'numeric', month: 'long' })
+    : `${first.toLocaleDateString('ja-JP', { month: 'short', day: 'numeric' })} 〜 ${last.toLocaleDateString('ja-JP', { month: 'short', day: 'numeric' })}`;
+
+  return (
+    <div style={styles.card}>
+      <div style={{ ...styles.row, justifyContent: 'space-between', marginBottom: '10px' }}>
+        <button onClick={() => move(-1)} style={styles.buttonSmall}>◀</button>
+        <div>
+          <strong>{title}</strong>
+          <button onClick={() => setCursor(startOfDay(new Date()))} style={{ ...styles.link, marginLeft: '8px' }}>今日</button>
+        </div>
+        <button onClick={() => move(1)} style={styles.buttonSmall}>▶</button>
       </div>
-      <div style={styles.stat}>
-        <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#28a745' }}>{completed}</div>
-        <div style={{ fontSize: '12px', color: '#666' }}>完了</div>
+      <div style={styles.calendarGrid}>
+        {WEEKDAY_LABELS.map(label => <div key={label} style={styles.calendarHead}>{label}</div>)}
+        {days.map(day => {
+          const key = toLocalDate(day);
+          const outside = mode === 'month' && day.getMonth() !== cursor.getMonth();
+          return (
+            <DayDropZone
+              key={key}
+              day={day}
+              onReschedule={onReschedule}
+              style={{
+                ...styles.calendarCell,
+                ...(mode === 'week' ? { minHeight: '200px' } : {}),
+                ...(outside ? { opacity: 0.5 } : {}),
+                ...(key === today ? { background: '#eef4fb' } : {}),
+              }}
+            >
+              <div style={{ fontWeight: key === today ? 'bold' : 'normal' }}>{day.getDate()}</div>
+              {(groups.get(key) || []).map(todo => <CalendarChip key={todo.id} todo={todo} editable={canEditTodo(todo, lists, userId)} onToggle={onToggle} />)}
+            </DayDropZone>
+          );
+        })}
       </div>
-      <div style={styles.stat}>
-        <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#dc3545' }}>{pending}</div>
-        <div style={{ fontSize: '12px', color: '#666' }}>未完了</div>
+      <small style={{ display: 'block', marginTop: '8px', color: '#666' }}>
+        タスクを別の日にドラッグすると期限を変更できます{undated > 0 && `（期限のないタスク ${undated}件はリスト表示で確認できます）`}
+      </small>
+    </div>
+  );
+}
+
+function AgendaView({ todos, lists, userId, onToggle, onUpdate, onDelete, onReschedule }: {
+  todos: Todo[];
+  lists: List[];
+  userId: string;
+  onToggle: (id: string, completed: boolean) => void;
+  onUpdate: (id: string, changes: RecordChanges<Todo['data']>) => void;
+  onDelete: (id: string) => void;
+  onReschedule: (id: string, day: Date) => void;
+}) {
+  const today = startOfDay(new Date());
+  // 期限を過ぎた未完了のタスクは先頭にまとめる
+  const overdue = todos.filter(todo => isOverdue(todo.data.dueDate) && !todo.data.completed);
+  const groups = groupByDueDate(todos.filter(todo => !overdue.includes(todo)));
+
+  if (overdue.length === 0 && groups.size === 0) return <p style={{ textAlign: 'center', color: '#666' }}>期限のあるタスクがありません</p>;
+
+  const renderItems = (items: Todo[]) => items.map(todo => (
+    <div key={todo.id} draggable={canEditTodo(todo, lists, userId)} onDragStart={startDrag(todo.id)}>
+      <TodoItem todo={todo} lists={lists} userId={userId} showList onToggle={onToggle} onUpdate={onUpdate} onDelete={onDelete} />
+    </div>
+  ));
+
+  return (
+    <div style={styles.card}>
+      <h2>予定</h2>
+      {overdue.length > 0 && (
+        <>
+          <div style={{ ...styles.agendaHeader, color: 'red' }}>期限切れ</div>
+          {renderItems(overdue)}
+        </>
+      )}
+      {[...groups.entries()].map(([key, items]) => {
+        const day = new Date(`${key}T00:00`);
+        return (
+          <React.Fragment key={key}>
+            <DayDropZone day={day} onReschedule={onReschedule} style={{ ...styles.agendaHeader, ...(day.getTime() === today.getTime() ? { color: '#0066cc' } : {}) }}>
+              {day.toLocaleDateString('ja-JP', { month: 'long', day: 'numeric', weekday: 'short' })}
+              {day.getTime() === today.getTime() && '（今日）'}
+            </DayDropZone>
+            {renderItems(items)}
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+}
+
+function SharePanel({ list, onInvite, onChangeMembers }: {
+  list: List;
+  onInvite: (list: List, email: string, role: Member['role']) => Promise<boolean>;
+  onChangeMembers: (list: List, members: Member[]) => void;
+}) {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Member['role']>('editor');
+  const [inviting, setInviting] = useState(false);
+  const members = list.data.members || [];
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+    if (await onInvite(list, email.trim(), role)) setEmail('');
+    setInviting(false);
+  };
+
+  return (
+    <div style={{ ...styles.form, width: '100%', padding: '10px', background: '#f8f9fa', borderRadius: '4px' }}>
+      {members.length === 0 && <small style={{ color: '#666' }}>まだ誰とも共有していません</small>}
+      {members.map(member => (
+        <div key={member.userId} style={styles.row}>
+          <span style={{ flex: 1 }}>{member.email}</span>
+          <select
+            value={member.role}
+            onChange={e => onChangeMembers(list, members.map(m => (m.userId === member.userId ? { ...m, role: e.target.value as Member['role'] } : m)))}
+            style={{ ...styles.input, padding: '4px' }}
+          >
+            <option value="editor">{ROLE_LABELS.editor}</option>
+            <option value="viewer">{ROLE_LABELS.viewer}</option>
+          </select>
+          <button onClick={() => onChangeMembers(list, members.filter(m => m.userId !== member.userId))} style={styles.link}>共有を解除</button>
+        </div>
+      ))}
+      <form onSubmit={handleInvite} style={styles.row}>
+        <input
+          type="email"
+          placeholder="招待するメールアドレス"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          style={{ ...styles.input, flex: 1 }}
+          required
+        />
+        <select value={role} onChange={e => setRole(e.target.value as Member['role'])} style={styles.input}>
+          <option value="editor">{ROLE_LABELS.editor}</option>
+          <option value="viewer">{ROLE_LABELS.viewer}</option>
+        </select>
+        <button type="submit" style={styles.buttonSmall} disabled={inviting}>招待</button>
+      </form>
+    </div>
+  );
+}
+
+function ListManager({ lists, userId, onCreate, onRename, onDelete, onInvite, onChangeMembers }: {
+  lists: List[];
+  userId: string;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (list: List) => void;
+  onInvite: (list: List, email: string, role: Member['role']) => Promise<boolean>;
+  onChangeMembers: (list: List, members: Member[]) => void;
+}) {
+  const [name, setName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [sharingId, setSharingId] = useState<string | null>(null);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onCreate(name.trim());
+    setName('');
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId && editingName.trim()) onRename(editingId, editingName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div style={styles.card}>
+      <h2>リスト</h2>
+      {lists.map(list => {
+        const role = roleOf(list, userId);
+        const memberCount = list.data.members?.length || 0;
+        return (
+          <div key={list.id} style={{ ...styles.todoItem, flexWrap: 'wrap' }}>
+            {editingId === list.id ? (
+              <form onSubmit={handleRename} style={{ ...styles.row, flex: 1 }}>
+                <input
+                  type="text"
+                  value={editingName}
+                  onChange={e => setEditingName(e.target.value)}
+                  onKeyDown={e => e.key === 'Escape' && setEditingId(null)}
+                  style={{ ...styles.input, flex: 1 }}
+                  autoFocus
+                  required
+                />
+                <button type="submit" style={styles.buttonSmall}>保存</button>
+              </form>
+            ) : role !== 'owner' ? (
+              // 共有されたリストの名前・メンバー・削除はオーナーだけが変更できる
+              <span style={styles.todoText}>
+                📁 {list.data.name}
+                <small style={{ color: '#666', marginLeft: '8px' }}>
+                  {list.data.ownerEmail ? `${list.data.ownerEmail} さんが共有` : '共有'}・{ROLE_LABELS[role]}
+                </small>
+              </span>
+            ) : (
+              <>
+                <span style={styles.todoText}>
+                  📁 {list.data.name}
+                  {memberCount > 0 && <small style={{ color: '#666', marginLeft: '8px' }}>👥 {memberCount}人と共有</small>}
+                </span>
+                <button
+                  onClick={() => setSharingId(sharingId === list.id ? null : list.id)}
+                  style={styles.buttonSmall}
+                  disabled={isLocalId(list.id)}
+                >
+                  共有
+                </button>
+                <button
+                  onClick={() => {
+                    setEditingId(list.id);
+                    setEditingName(list.data.name);
+                  }}
+                  style={styles.buttonSmall}
+                >
+                  名前を変更
+                </button>
+                <button onClick={() => onDelete(list)} style={styles.buttonDanger}>削除</button>
+              </>
+            )}
+            {sharingId === list.id && role === 'owner' && <SharePanel list={list} onInvite={onInvite} onChangeMembers={onChangeMembers} />}
+          </div>
+        );
+      })}
+      <form onSubmit={handleCreate} style={{ ...styles.row, marginTop: '10px' }}>
+        <input
+          type="text"
+          placeholder="新しいリスト（例: 仕事、買い物）"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          style={{ ...styles.input, flex: 1 }}
+        />
+        <button type="submit" style={styles.button}>作成</button>
+      </form>
+    </div>
+  );
+}
+
+function NotificationSettingsForm({ initial, onSave, onClose }: {
+  initial: NotificationSettings;
+  onSave: (settings: NotificationSettings) => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const [channels, setChannels] = useState<Channel[]>(initial.channels);
+  const [leadTimes, setLeadTimes] = useState<number[]>(initial.leadTimes);
+  const [quietEnabled, setQuietEnabled] = useState(!!initial.quietHours);
+  const [quietStart, setQuietStart] = useState(initial.quietHours?.start || '22:00');
+  const [quietEnd, setQuietEnd] = useState(initial.quietHours?.end || '07:00');
+  const [saving, setSaving] = useState(false);
+  // この端末にWebプッシュの購読があるか（確認中は null）
+  const [pushSubscribed, setPushSubscribed] = useState<boolean | null>(null);
+  const [subscribing, setSubscribing] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getPushSubscription().then(subscription => setPushSubscribed(subscription !== null), () => setPushSubscribed(false));
+  }, []);
+
+  // Webプッシュは購読がある端末でだけ選べる（他の端末で選んだ設定は外せるよう表示する）
+  const selectableChannels = CHANNELS.filter(channel => channel !== 'push' || pushSubscribed || channels.includes('push'));
+
+  const handleSubscribePush = async () => {
+    setSubscribing(true);
+    const failure = await subscribePush();
+    setSubscribing(false);
+    setError(failure || '');
+    if (failure) return;
+    setPushSubscribed(true);
+    setChannels(prev => CHANNELS.filter(c => c === 'push' || prev.includes(c)));
+  };
+
+  const toggleChannel = (channel: Channel) => {
+    if (channels.includes(channel)) return setChannels(prev => prev.filter(c => c !== channel));
+    setChannels(prev => CHANNELS.filter(c => c === channel || prev.includes(c)));
+  };
+
+  const toggleLeadTime = (minutes: number) =>
+    setLeadTimes(prev => (prev.includes(minutes) ? prev.filter(m => m !== minutes) : [...prev, minutes].sort((a, b) => b - a)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const settings: NotificationSettings = { channels, leadTimes };
+    if (quietEnabled) settings.quietHours = { start: quietStart, end: quietEnd };
+    const saved = await onSave(settings);
+    setSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <div style={styles.card}>
+      <h2>通知設定</h2>
+      {error && <p style={styles.error}>{error}</p>}
+      <form onSubmit={handleSubmit} style={styles.form}>
+        <h3>通知方法</h3>
+        {selectableChannels.map(channel => (
+          <label key={channel} style={styles.row}>
+            <input type="checkbox" checked={channels.includes(channel)} onChange={() => toggleChannel(channel)} style={styles.checkbox} />
+            {CHANNEL_LABELS[channel]}
+          </label>
+        ))}
+        {pushSubscribed === false && (
+          <div>
+            <button type="button" onClick={handleSubscribePush} style={styles.buttonSecondary} disabled={subscribing}>
+              {subscribing ? '設定中...' : 'この端末でWebプッシュを受け取る'}
+            </button>
+            {channels.includes('push') && <small style={{ color: '#666', marginLeft: '8px' }}>Webプッシュは購読した他の端末に届きます</small>}
+          </div>
+        )}
+
+        <h3>通知のタイミング（期限の）</h3>
+        <div style={styles.chips}>
+          {LEAD_TIME_OPTIONS.map(minutes => (
+            <button
+              key={minutes}
+              type="button"
+              onClick={() => toggleLeadTime(minutes)}
+              style={{ ...styles.chip, ...(leadTimes.includes(minutes) ? styles.chipActive : {}) }}
+            >
+              {formatLeadTime(minutes)}前
+            </button>
+          ))}
+        </div>
+        {(channels.length === 0 || leadTimes.length === 0) && <small style={{ color: '#666' }}>リマインダーは送られません</small>}
+
+        <h3>通知しない時間帯</h3>
+        <label style={styles.row}>
+          <input type="checkbox" checked={quietEnabled} onChange={e => setQuietEnabled(e.target.checked)} style={styles.checkbox} />
+          設定する
+        </label>
+        {quietEnabled && (
+          <div style={styles.row}>
+            <input type="time" value={quietStart} onChange={e => setQuietStart(e.target.value)} style={styles.input} required />
+            〜
+            <input type="time" value={quietEnd} onChange={e => setQuietEnd(e.target.value)} style={styles.input} required />
+          </div>
+        )}
+
+        <div style={styles.row}>
+          <button type="submit" style={styles.button} disabled={saving}>{saving ? '保存中...' : '保存'}</button>
+          <button type="button" onClick={onClose} style={styles.buttonSecondary}>戻る</button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+function Stats({ todos, lists }: { todos: Todo[]; lists: List[] }) {
+  const [includeSubtasks, setIncludeSubtasks] = useState(false);
+  const hasSubtasks = todos.some(todo => todo.data.subtasks?.length);
+
+  // サブタスクも数えるときは、タスクとサブタスクを同じ1件として合計する
+  const count = (items: Todo[]) => {
+    const subtasks = includeSubtasks ? countSubtasks(items) : { total: 0, completed: 0 };
+    return { total: items.length + subtasks.total, completed: items.filter(t => t.data.completed).length + subtasks.completed };
+  };
+
+  const { total, completed } = count(todos);
+  const pending = total - completed;
+
+  // リストごとの内訳（タスクのある未分類も1行として出す）
+  const rows = [
+    ...lists.map(list => ({ id: list.id, name: list.data.name })),
+    { id: INBOX, name: '未分類' },
+  ].map(row => {
+    return { ...row, ...count(todos.filter(todo => listIdOf(todo, lists) === row.id)) };
+  }).filter(row => row.id !== INBOX || row.total > 0);
+
+  return (
+    <>
+      <div style={styles.stats}>
+        <div style={styles.stat}>
+          <div style={{ fontSize: '24px', fontWeight: 'bold' }}>{total}</div>
+          <div style={{ fontSize: '12px', color: '#666' }}>合計</div>
+        </div>
+        <div style={styles.stat}>
+          <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#28a745' }}>{completed}</div>
+          <div style={{ fontSize: '12px', color: '#666' }}>完了</div>
+        </div>
+        <div style={styles.stat}>
+          <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#dc3545' }}>{pending}</div>
+          <div style={{ fontSize: '12px', color: '#666' }}>未完了</div>
+        </div>
       </div>
+      {hasSubtasks && (
+        <label style={{ ...styles.row, justifyContent: 'center', marginTop: '-10px', marginBottom: '20px', fontSize: '13px', color: '#666' }}>
+          <input type="checkbox" checked={includeSubtasks} onChange={e => setIncludeSubtasks(e.target.checked)} />
+          サブタスクも数える
+        </label>
+      )}
+      {lists.length > 0 && (
+        <div style={styles.card}>
+          <table style={styles.listStats}>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.id}>
+                  <td style={{ padding: '4px 0' }}>{row.name}</td>
+                  <td style={{ width: '40%', padding: '4px 10px' }}>
+                    <div style={styles.progress}>
+                      <div style={{ ...styles.progressBar, width: `${row.total ? (row.completed / row.total) * 100 : 0}%` }} />
+                    </div>
+                  </td>
+                  <td style={{ textAlign: 'right', color: '#666', whiteSpace: 'nowrap' }}>
+                    {row.completed} / {row.total} 完了
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+}
+
+function Toast({ message, onClose }: { message: string; onClose: () => void }) {
+  useEffect(() => {
+    const timer = setTimeout(onClose, 4000);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  return (
+    <div role="alert" style={styles.toast} onClick={onClose}>
+      {message}
+    </div>
+  );
+}
+
+function SyncIndicator() {
+  const [sync, setSync] = useState(data.sync.getState());
+
+  useEffect(() => data.sync.subscribe(setSync), []);
+
+  const label = sync.status === 'syncing'
+    ? '同期中...'
+    : sync.status === 'offline'
+      ? `オフライン${sync.pending > 0 ? `（未送信 ${sync.pending}件）` : ''}`
+      : sync.pending > 0 ? `未送信 ${sync.pending}件` : '同期済み';
+  const color = sync.status === 'offline' ? '#e67e22' : sync.status === 'syncing' ? '#0066cc' : '#28a745';
+
+  return (
+    <div style={styles.syncStatus}>
+      <span style={{ color }}>●</span> {label}
+      {sync.lastError && <span style={{ color: 'red', marginLeft: '8px' }}>{sync.lastError}</span>}
     </div>
   );
 }
 
+// 編集内容を画面のタスクに反映する（null の項目は削除）
+function applyChanges(todo: Todo, changes: RecordChanges<Todo['data']>): Todo {
+  const next: Record<string, unknown> = { ...todo.data, ...changes };
+  for (const key of Object.keys(next)) {
+    if (next[key] === null) delete next[key];
+  }
+  return { ...todo, data: next as Todo['data'] };
+}
+
 function App() {
   const [user, setUser] = useState<{ id: string; email: string } | null>(null);
   const [todos, setTodos] = useState<Todo[]>([]);
+  const [lists, setLists] = useState<List[]>([]);
+  const [filter, setFilter] = useState<TodoFilter>({ listId: null, tag: null, status: 'all' });
+  const [settingsRecord, setSettingsRecord] = useState<SettingsRecord | null>(null);
+  const [view, setView] = useState<'todos' | 'settings'>('todos');
+  const [todoView, setTodoView] = useState<TodoView>('list');
   const [loading, setLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [toast, setToast] = useState<string | null>(null);
+  const reconciling = useRef(false);
+
+  useEffect(() => {
+    // トークンを更新できなかったらログイン画面に戻す
+    return auth.onSessionExpired(() => {
+      setUser(null);
+      setTodos([]);
+      setLists([]);
+      setSettingsRecord(null);
+      setView('todos');
+      setSessionExpired(true);
+    });
+  }, []);
 
   useEffect(() => {
     const init = async () => {
@@ -307,43 +1455,304 @@ function App() {
   }, []);
 
   useEffect(() => {
-    if (user) loadTodos();
+    if (!user) return;
+    loadAll();
+    // オフライン中の変更を送り終えたら、サーバーのIDで取り直す
+    return data.sync.onSynced(loadAll);
   }, [user]);
 
+  const loadAll = async () => {
+    const [loaded, , loadedSettings] = await Promise.all([loadTodos(), loadLists(), loadSettings()]);
+    if (loaded) await reconcileOwnTodos(loaded.records, loaded.complete, loadedSettings ?? DEFAULT_SETTINGS);
+  };
+
+  const settings = settingsRecord?.data ?? DEFAULT_SETTINGS;
+
   const loadTodos = async () => {
-    const result = await data.list('todos');
+    if (!user) return;
+    const result = await data.list(todosCollection, {
+      orderBy: { field: 'createdAt', direction: 'desc' },
+    });
     if (result.success && result.data) {
-      const userTodos = result.data
-        .filter((t: { id: string; data: Record<string, unknown> }) => t.data.userId === user?.id)
-        .sort((a: { data: Record<string, unknown> }, b: { data: Record<string, unknown> }) =>
-          new Date(b.data.createdAt as string).getTime() - new Date(a.data.createdAt as string).getTime()
-        ) as Todo[];
-      setTodos(userTodos);
+      setTodos(result.data);
+      // キャッシュや途中までの一覧では、削除されたタスクを見分けられない
+      return { records: result.data, complete: !result.meta?.fromCache && !result.meta?.nextCursor };
     }
+    return null;
   };
 
+  const loadSettings = async () => {
+    if (!user) return;
+    const result = await data.list(settingsCollection, { limit: 1 });
+    if (result.success && result.data) {
+      const loaded = result.data[0] || null;
+      setSettingsRecord(loaded);
+      // 公開用のレコードがない・古いときに作り直す
+      if (loaded) publishChannels(user.id, loaded.data.channels);
+      return loaded?.data ?? DEFAULT_SETTINGS;
+    }
+    return null;
+  };
+
+  // 設定を変えたら、これから通知する予定のタスクのリマインダーも設定に合わせ直す
+  const handleSaveSettings = async (next: NotificationSettings) => {
+    const result = settingsRecord
+      ? await data.update(settingsCollection, settingsRecord.id, { ...next, quietHours: next.quietHours ?? null })
+      : await data.create(settingsCollection, next);
+    if (!result.success || !result.data) {
+      setToast(`通知設定の保存に失敗しました: ${result.error?.message || 'エラーが発生しました'}`);
+      return false;
+    }
+    const saved = result.data;
+    setSettingsRecord(saved);
+    if (!user) return true;
+    await publishChannels(user.id, saved.data.channels);
+    for (const todo of todos.filter(t => isMine(t, user.id) && !t.data.completed && t.data.dueDate)) {
+      const reminders = await syncReminders(notify, user.id, todo.data, saved.data);
+      if (JSON.stringify(reminders) === JSON.stringify(todo.data.reminders || [])) continue;
+      await data.update(todosCollection, todo.id, { reminders: reminders.length > 0 ? reminders : null });
+    }
+    loadTodos();
+    return true;
+  };
+
+  const loadLists = async () => {
+    if (!user) return;
+    const result = await data.list(listsCollection, {
+      orderBy: { field: 'createdAt', direction: 'asc' },
+    });
+    if (result.success && result.data) {
+      setLists(result.data);
+    }
+  };
+
+  const setCompleted = (id: string, completed: boolean) =>
+    setTodos(prev => prev.map(t => (t.id === id ? { ...t, data: { ...t.data, completed } } : t)));
+
   const handleToggle = async (id: string, completed: boolean) => {
-    const result = await data.update('todos', id, { completed });
-    if (result.success) {
-      loadTodos();
+    const result = await runOptimistic({
+      apply: () => setCompleted(id, completed),
+      request: () => data.update(todosCollection, id, { completed }),
+      rollback: () => setCompleted(id, !completed),
+    });
+    if (!result.success) {
+      setToast(`更新に失敗しました: ${result.error?.message || 'エラーが発生しました'}`);
+      return;
+    }
+    const todo = todos.find(t => t.id === id);
+    if (!todo || !user) return;
+    await refreshReminders(applyChanges(todo, { completed }));
+    // 次の回は作成者のタスクとして作る。他のメンバーが完了したときは、作成者の端末で作ってもらう
+    if (isMine(todo, user.id)) {
+      if (completed) await createNextOccurrence(todo);
+    } else if (todo.data.recurrence) {
+      await data.update(todosCollection, id, { nextPending: completed || null });
+    }
+  };
+
+  // 完了・期限の変更などのあとで、リマインダーをタスクの内容に合わせ、タスクに残ったリマインダーを返す
+  // リマインダーは作成者に届くものなので、共有リストの他の人のタスクには触れない（作成者の端末で後から合わせる）
+  const refreshReminders = async (todo: Todo, current = settings) => {
+    if (!user || !isMine(todo, user.id)) return todo.data.reminders || [];
+    const reminders = await syncReminders(notify, user.id, todo.data, current);
+    if (JSON.stringify(reminders) === JSON.stringify(todo.data.reminders || [])) return reminders;
+    const changes = { reminders: reminders.length > 0 ? reminders : null };
+    setTodos(prev => prev.map(t => (t.id === todo.id ? applyChanges(t, changes) : t)));
+    await data.update(todosCollection, todo.id, changes);
+    return reminders;
+  };
+
+  // 共有リストの他のメンバーが完了・削除・期限の変更をした自分のタスクについて、
+  // リマインダーの取り消し・変更と次の回の作成を、読み込みや同期のたびにまとめて行う
+  const reconcileOwnTodos = async (loaded: Todo[], complete: boolean, current: NotificationSettings) => {
+    // 読み込みと同期が重なっても、次の回を二重に作らない
+    if (!user || reconciling.current) return;
+    reconciling.current = true;
+    try {
+      const reminderIds: string[] = [];
+      for (const todo of loaded.filter(t => isMine(t, user.id))) {
+        if (todo.data.nextPending && (!todo.data.completed || (await createNextOccurrence(todo, loaded, current)))) {
+          await data.update(todosCollection, todo.id, { nextPending: null });
+        }
+        const reminders = hasStaleReminders(todo.data) ? await refreshReminders(todo, current) : todo.data.reminders || [];
+        reminderIds.push(...reminders.map(reminder => reminder.id));
+      }
+      if (complete) await cancelRemovedReminders(notify, user.id, reminderIds);
+    } finally {
+      reconciling.current = false;
     }
   };
 
+  // 繰り返しのタスクを完了したら次の回を作る。作れなかったら false
+  const createNextOccurrence = async (todo: Todo, existing = todos, current = settings) => {
+    const { recurrence, dueDate, seriesId = todo.id } = todo.data;
+    if (!user || !recurrence || !dueDate) return true;
+    // 完了を取り消してもう一度完了したときなど、次の回がすでにあれば作らない
+    const hasNext = existing.some(t =>
+      t.id !== todo.id && (t.data.seriesId || t.id) === seriesId && t.data.dueDate && t.data.dueDate > dueDate
+    );
+    if (hasNext) return true;
+    const next = nextDueDate(recurrence, dueDate);
+    if (!next) return true;
+
+    const { completed: _completed, createdAt: _createdAt, reminders: _reminders, nextPending: _nextPending, ...rest } = todo.data;
+    const occurrence: Todo['data'] = {
+      ...rest,
+      // サブタスクは未完了に戻して引き継ぐ
+      subtasks: rest.subtasks?.map(subtask => ({ ...subtask, completed: false })),
+      completed: false,
+      dueDate: next.toISOString(),
+      seriesId,
+      createdAt: new Date().toISOString(),
+    };
+    // リマインダーは回ごとに登録する
+    const reminders = await syncReminders(notify, user.id, occurrence, current);
+    if (reminders.length > 0) occurrence.reminders = reminders;
+    const result = await data.create(todosCollection, occurrence);
+    if (!result.success) {
+      await cancelReminders(notify, reminders);
+      setToast(`次の予定の作成に失敗しました: ${result.error?.message || 'エラーが発生しました'}`);
+      return false;
+    }
+    loadTodos();
+    return true;
+  };
+
+  const handleUpdate = async (id: string, changes: RecordChanges<Todo['data']>) => {
+    const previous = todos.find(t => t.id === id);
+    if (!previous) return;
+    const result = await runOptimistic({
+      apply: () => setTodos(prev => prev.map(t => (t.id === id ? applyChanges(t, changes) : t))),
+      request: () => data.update(todosCollection, id, changes),
+      rollback: () => setTodos(prev => prev.map(t => (t.id === id ? previous : t))),
+    });
+    if (!result.success) {
+      setToast(`更新に失敗しました: ${result.error?.message || 'エラーが発生しました'}`);
+      return;
+    }
+    if ('dueDate' in changes || 'title' in changes) await refreshReminders(applyChanges(previous, changes));
+    if (user && changes.assigneeId && changes.assigneeId !== previous.data.assigneeId && changes.assigneeId !== user.id) {
+      await notifyAssignee(changes.assigneeId, user.email, changes.title || previous.data.title);
+    }
+    // 最後のサブタスクを完了したら、設定に応じて親のタスクも完了にする
+    const { subtasks, completeWithSubtasks, completed } = applyChanges(previous, changes).data;
+    if ('subtasks' in changes && completeWithSubtasks && !completed && subtasks?.length && subtasks.every(s => s.completed)) {
+      await handleToggle(id, true);
+    }
+  };
+
+  const handleReschedule = (id: string, day: Date) => {
+    const todo = todos.find(t => t.id === id);
+    if (!todo?.data.dueDate) return;
+    const dueDate = moveToDay(todo.data.dueDate, day);
+    if (dueDate !== todo.data.dueDate) handleUpdate(id, { dueDate });
+  };
+
+  const handleExport = () => {
+    if (!todos.some(t => t.data.dueDate)) {
+      setToast('期限のあるタスクがありません');
+      return;
+    }
+    downloadFile('todos.ics', exportICalendar(toICalTodos(todos, lists)), 'text/calendar;charset=utf-8');
+  };
+
   const handleDelete = async (id: string) => {
-    const result = await data.delete('todos', id);
-    if (result.success) {
-      loadTodos();
+    const removed = todos.find(t => t.id === id);
+    if (!removed) return;
+    const result = await runOptimistic({
+      apply: () => setTodos(prev => prev.filter(t => t.id !== id)),
+      request: () => data.delete(todosCollection, id),
+      // 元の並び（作成日時の新しい順）に戻す
+      rollback: () => setTodos(prev =>
+        [...prev, removed].sort((a, b) => new Date(b.data.createdAt).getTime() - new Date(a.data.createdAt).getTime())
+      ),
+    });
+    if (!result.success) {
+      setToast(`削除に失敗しました: ${result.error?.message || 'エラーが発生しました'}`);
+      return;
     }
+    // 他のメンバーのタスクのリマインダーは、作成者の端末が次に読み込んだときに取り消す
+    if (user && isMine(removed, user.id)) await cancelReminders(notify, removed.data.reminders);
+  };
+
+  const handleCreateList = async (name: string) => {
+    const result = await data.create(listsCollection, { name, ownerEmail: user?.email, createdAt: new Date().toISOString() });
+    if (result.success) loadLists();
+    else setToast(`リストの作成に失敗しました: ${result.error?.message || 'エラーが発生しました'}`);
+  };
+
+  const handleRenameList = async (id: string, name: string) => {
+    const result = await data.update(listsCollection, id, { name });
+    if (result.success) setLists(prev => prev.map(l => (l.id === id ? { ...l, data: { ...l.data, name } } : l)));
+    else setToast(`名前の変更に失敗しました: ${result.error?.message || 'エラーが発生しました'}`);
+  };
+
+  const handleChangeMembers = async (list: List, members: Member[]) => {
+    const result = await data.update(listsCollection, list.id, { members: members.length > 0 ? members : null });
+    if (result.success) setLists(prev => prev.map(l => (l.id === list.id ? { ...l, data: { ...l.data, members } } : l)));
+    else setToast(`共有の変更に失敗しました: ${result.error?.message || 'エラーが発生しました'}`);
+    return result.success;
+  };
+
+  // 招待する相手をメールアドレスで探して、リストのメンバーに加える（すでにいれば権限を変える）
+  const handleInvite = async (list: List, email: string, role: Member['role']) => {
+    if (!user) return false;
+    if (email.toLowerCase() === user.email.toLowerCase()) {
+      setToast('自分自身は招待できません');
+      return false;
+    }
+    const found = await auth.findUser(email);
+    if (!found.success || !found.data) {
+      setToast(found.error?.status === 404 ? `${email} のユーザーが見つかりません` : `招待に失敗しました: ${found.error?.message || 'エラーが発生しました'}`);
+      return false;
+    }
+    const invited = found.data;
+    const members = list.data.members || [];
+    const next = members.some(m => m.userId === invited.id)
+      ? members.map(m => (m.userId === invited.id ? { ...m, role } : m))
+      : [...members, { userId: invited.id, email: invited.email, role }];
+    return handleChangeMembers(list, next);
+  };
+
+  // リストを削除しても、中のタスクは未分類に移して残す
+  // 他のメンバーのタスクも、リストを通した共有が無くなる前に、作った本人の未分類に移す
+  const handleDeleteList = async (list: List) => {
+    if (!user) return;
+    const inList = todos.filter(t => t.data.listId === list.id);
+    const others = inList.filter(t => !isMine(t, user.id)).length;
+    const notice = inList.length === 0 ? '' : others > 0
+      ? `\n${inList.length}件のタスクは、それぞれ作成したメンバーの未分類に移動します（他のメンバーのタスク${others}件を含む）`
+      : `\n${inList.length}件のタスクは未分類に移動します`;
+    if (!confirm(`リスト「${list.data.name}」を削除しますか？${notice}`)) return;
+    for (const todo of inList) {
+      const result = await data.update(todosCollection, todo.id, { listId: null });
+      if (!result.success) {
+        setToast(`タスクの移動に失敗しました: ${result.error?.message || 'エラーが発生しました'}`);
+        return loadTodos();
+      }
+    }
+    const result = await data.delete(listsCollection, list.id);
+    if (!result.success) setToast(`リストの削除に失敗しました: ${result.error?.message || 'エラーが発生しました'}`);
+    if (filter.listId === list.id) setFilter(prev => ({ ...prev, listId: null }));
+    loadAll();
   };
 
   const handleLogout = async () => {
+    await unsubscribePush();
     await auth.logout();
     setUser(null);
     setTodos([]);
+    setLists([]);
+    setSettingsRecord(null);
+    setView('todos');
   };
 
   if (loading) return <div style={styles.container}>読み込み中...</div>;
 
+  // 表示中のリストに追加できるなら、追加フォームの初期値にする
+  const filterList = lists.find(l => l.id === filter.listId);
+  const writableFilterList = user && filterList && !isLocalId(filterList.id) && roleOf(filterList, user.id) !== 'viewer' ? filterList : null;
+
   return (
     <div style={styles.container}>
       <header style={styles.header}>
@@ -352,22 +1761,75 @@ function App() {
         {user && (
           <p style={{ marginTop: '10px' }}>
             {user.email} でログイン中
+            <button onClick={() => setView('settings')} style={{ ...styles.buttonSecondary, marginLeft: '10px' }}>通知設定</button>
             <button onClick={handleLogout} style={{ ...styles.buttonSecondary, marginLeft: '10px' }}>ログアウト</button>
           </p>
         )}
+        {user && <SyncIndicator />}
       </header>
       {!user ? (
-        <AuthForm onLogin={async () => {
-          const result = await auth.me();
-          if (result.success && result.data) setUser(result.data);
-        }} />
+        <AuthForm
+          notice={sessionExpired ? 'セッションの有効期限が切れました。再度ログインしてください' : undefined}
+          onLogin={async () => {
+            const result = await auth.me();
+            if (result.success && result.data) {
+              setSessionExpired(false);
+              setUser(result.data);
+            }
+          }}
+        />
+      ) : view === 'settings' ? (
+        <NotificationSettingsForm initial={settings} onSave={handleSaveSettings} onClose={() => setView('todos')} />
       ) : (
         <>
-          <Stats todos={todos} />
-          <TodoForm userId={user.id} onAdd={loadTodos} />
-          <TodoList todos={todos} onToggle={handleToggle} onDelete={handleDelete} />
+          <Stats todos={todos} lists={lists} />
+          <TodoForm
+            userId={user.id}
+            lists={lists}
+            defaultListId={writableFilterList ? writableFilterList.id : INBOX}
+            settings={settings}
+            onOpenSettings={() => setView('settings')}
+            onAdd={loadTodos}
+          />
+          <TodoFilters todos={todos} lists={lists} filter={filter} onChange={changes => setFilter(prev => ({ ...prev, ...changes }))} />
+          <ViewSwitcher view={todoView} onChange={setTodoView} onExport={handleExport} />
+          {todoView === 'list' && (
+            <TodoList
+              todos={filterTodos(todos, lists, filter)}
+              lists={lists}
+              userId={user.id}
+              showList={filter.listId === null}
+              onToggle={handleToggle}
+              onUpdate={handleUpdate}
+              onDelete={handleDelete}
+            />
+          )}
+          {(todoView === 'month' || todoView === 'week') && (
+            <CalendarView todos={filterTodos(todos, lists, filter)} lists={lists} userId={user.id} mode={todoView} onToggle={handleToggle} onReschedule={handleReschedule} />
+          )}
+          {todoView === 'agenda' && (
+            <AgendaView
+              todos={filterTodos(todos, lists, filter)}
+              lists={lists}
+              userId={user.id}
+              onToggle={handleToggle}
+              onUpdate={handleUpdate}
+              onDelete={handleDelete}
+              onReschedule={handleReschedule}
+            />
+          )}
+          <ListManager
+            lists={lists}
+            userId={user.id}
+            onCreate={handleCreateList}
+            onRename={handleRenameList}
+            onDelete={handleDeleteList}
+            onInvite={handleInvite}
+            onChangeMembers={handleChangeMembers}
+          />
         </>
       )}
+      {toast && <Toast message={toast} onClose={() => setToast(null)} />}
     </div>
   );
 }
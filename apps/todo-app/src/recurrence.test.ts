@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { formatRecurrence, nextDueDate } from './recurrence';
+
+const at = (month: number, day: number) => new Date(2025, month - 1, day, 9, 0);
+
+describe('nextDueDate', () => {
+  it('毎日は間隔の日数だけ進める', () => {
+    expect(nextDueDate({ freq: 'daily', interval: 3 }, at(1, 1).toISOString(), at(1, 1))).toEqual(at(1, 4));
+  });
+
+  it('期限を過ぎてから完了したら、これから来る回まで進める', () => {
+    expect(nextDueDate({ freq: 'daily', interval: 1 }, at(1, 1).toISOString(), new Date(2025, 0, 5, 12, 0))).toEqual(at(1, 6));
+  });
+
+  it('隔週は間の週を飛ばす', () => {
+    // 2025/1/6 は月曜
+    expect(nextDueDate({ freq: 'weekly', interval: 2, byWeekday: [1] }, at(1, 6).toISOString(), at(1, 6))).toEqual(at(1, 20));
+  });
+
+  it('同じ週の次の曜日に進める', () => {
+    expect(nextDueDate({ freq: 'weekly', interval: 1, byWeekday: [1, 3] }, at(1, 6).toISOString(), at(1, 6))).toEqual(at(1, 8));
+  });
+
+  it('毎月31日はその月に無ければ月末にする', () => {
+    expect(nextDueDate({ freq: 'monthly', interval: 1, byMonthDay: 31 }, at(1, 31).toISOString(), at(1, 31))).toEqual(at(2, 28));
+  });
+
+  it('終了日を過ぎたら null', () => {
+    expect(nextDueDate({ freq: 'daily', interval: 1, until: '2025-01-01' }, at(1, 1).toISOString(), at(1, 1))).toBeNull();
+  });
+});
+
+describe('formatRecurrence', () => {
+  it('間隔・曜日・終了日を表示する', () => {
+    expect(formatRecurrence({ freq: 'weekly', interval: 2, byWeekday: [1, 3], until: '2025-03-31' })).toBe('2週ごと 月・水（2025/03/31まで）');
+    expect(formatRecurrence({ freq: 'monthly', interval: 1, byMonthDay: 15 })).toBe('毎月 15日');
+    expect(formatRecurrence({ freq: 'daily', interval: 1 })).toBe('毎日');
+  });
+});
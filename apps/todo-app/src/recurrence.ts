@@ -0,0 +1,79 @@
+import { s, type Infer } from 'nanobase-client';
+
+// ==========================================
+// 繰り返し
+// ==========================================
+// RRULE（iCalendar の繰り返しルール）の FREQ / INTERVAL / BYDAY / BYMONTHDAY / UNTIL に相当する
+export const recurrenceSchema = s.object({
+  freq: s.literal('daily', 'weekly', 'monthly'),
+  interval: s.number(),
+  // weekly: 繰り返す曜日（0 = 日曜）。未指定なら期限と同じ曜日
+  byWeekday: s.optional(s.array(s.number())),
+  // monthly: 繰り返す日。その月に無い日（31日など）は月末にする
+  byMonthDay: s.optional(s.number()),
+  // この日（YYYY-MM-DD、端末の日付）まで繰り返す
+  until: s.optional(s.string()),
+});
+
+export type Recurrence = Infer<typeof recurrenceSchema>;
+
+export const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+export const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toLocalDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// from より後で、ルールに合う最初の日時（時刻は from と同じ）。終了日を過ぎたら null
+function nextOccurrence(rule: Recurrence, from: Date): Date | null {
+  const interval = Math.max(1, Math.floor(rule.interval));
+  let next: Date | null = null;
+
+  if (rule.freq === 'daily') {
+    next = new Date(from);
+    next.setDate(next.getDate() + interval);
+  } else if (rule.freq === 'weekly') {
+    const weekdays = rule.byWeekday?.length ? rule.byWeekday : [from.getDay()];
+    const weekStart = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay()).getTime();
+    for (let i = 1; i <= 7 * interval && !next; i++) {
+      const candidate = new Date(from);
+      candidate.setDate(from.getDate() + i);
+      // from の週から数えて interval 週ごとの週だけが対象
+      const weeks = Math.round((weekStart(candidate) - weekStart(from)) / (7 * 24 * 60 * 60 * 1000));
+      if (weeks % interval === 0 && weekdays.includes(candidate.getDay())) next = candidate;
+    }
+  } else {
+    const day = rule.byMonthDay ?? from.getDate();
+    for (let months = 0; !next; months += interval) {
+      const candidate = new Date(from.getFullYear(), from.getMonth() + months, 1, from.getHours(), from.getMinutes());
+      const lastDay = new Date(candidate.getFullYear(), candidate.getMonth() + 1, 0).getDate();
+      candidate.setDate(Math.min(day, lastDay));
+      if (candidate > from) next = candidate;
+    }
+  }
+
+  if (next && rule.until && toLocalDate(next) > rule.until) return null;
+  return next;
+}
+
+// 期限を過ぎてから完了した場合は、これから来る回まで進める
+export function nextDueDate(rule: Recurrence, dueDate: string, now = new Date()) {
+  let next = nextOccurrence(rule, new Date(dueDate));
+  while (next && next <= now) next = nextOccurrence(rule, next);
+  return next;
+}
+
+export function formatRecurrence(rule: Recurrence) {
+  const interval = Math.max(1, Math.floor(rule.interval));
+  let label: string;
+  if (rule.freq === 'daily') {
+    label = interval === 1 ? '毎日' : `${interval}日ごと`;
+  } else if (rule.freq === 'weekly') {
+    const days = (rule.byWeekday || []).map(day => WEEKDAY_LABELS[day]).join('・');
+    label = `${interval === 1 ? '毎週' : `${interval}週ごと`}${days ? ` ${days}` : ''}`;
+  } else {
+    label = `${interval === 1 ? '毎月' : `${interval}か月ごと`}${rule.byMonthDay ? ` ${rule.byMonthDay}日` : ''}`;
+  }
+  return rule.until ? `${label}（${rule.until.replace(/-/g, '/')}まで）` : label;
+}
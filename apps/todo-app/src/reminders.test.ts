@@ -0,0 +1,204 @@
+import { ApiError, NetworkError, type ApiResult, type NotifyClient, type ScheduleOptions } from 'nanobase-client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { avoidQuietHours, cancelRemovedReminders, hasStaleReminders, syncReminders, type NotificationSettings, type RemindedTodo } from './reminders';
+
+const at = (day: number, hours: number, minutes = 0) => new Date(2025, 0, day, hours, minutes);
+
+// Notico の代わり。登録した通知に n1, n2... のIDを振る
+function createFakeNotify() {
+  let nextId = 1;
+  return {
+    schedule: vi.fn(async (_options: ScheduleOptions): Promise<ApiResult<{ id: string }>> => ({ success: true, data: { id: `n${nextId++}` } })),
+    reschedule: vi.fn(async (_id: string, _options: Partial<ScheduleOptions>): Promise<ApiResult<unknown>> => ({ success: true })),
+    cancel: vi.fn(async (_id: string): Promise<ApiResult<unknown>> => ({ success: true })),
+  };
+}
+
+const asClient = (notify: ReturnType<typeof createFakeNotify>) => notify as unknown as NotifyClient;
+
+const oneDayByEmail: NotificationSettings = { channels: ['email'], leadTimes: [24 * 60] };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(at(1, 12));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('syncReminders', () => {
+  const todo: RemindedTodo = { title: '請求書を送る', completed: false, dueDate: at(10, 9).toISOString() };
+
+  it('期限の前に通知を登録し、IDと期限を返す', async () => {
+    const notify = createFakeNotify();
+    const reminders = await syncReminders(asClient(notify), 'u1', todo, oneDayByEmail);
+
+    expect(notify.schedule).toHaveBeenCalledWith({
+      userId: 'u1',
+      type: 'email',
+      subject: 'タスクリマインダー',
+      message: '「請求書を送る」の期限まであと1日です',
+      scheduledAt: at(9, 9).toISOString(),
+    });
+    expect(reminders).toEqual([{ id: 'n1', channel: 'email', leadMinutes: 24 * 60, dueDate: todo.dueDate }]);
+  });
+
+  it('期限を変えたら登録済みの通知の時刻を変える', async () => {
+    const notify = createFakeNotify();
+    const reminders = await syncReminders(asClient(notify), 'u1', todo, oneDayByEmail);
+    const moved = { ...todo, dueDate: at(20, 9).toISOString(), reminders };
+    const next = await syncReminders(asClient(notify), 'u1', moved, oneDayByEmail);
+
+    expect(notify.reschedule).toHaveBeenCalledWith('n1', { scheduledAt: at(19, 9).toISOString(), message: '「請求書を送る」の期限まであと1日です' });
+    expect(notify.schedule).toHaveBeenCalledTimes(1);
+    expect(next).toEqual([{ id: 'n1', channel: 'email', leadMinutes: 24 * 60, dueDate: moved.dueDate }]);
+  });
+
+  it('完了したり期限を外したりしたら通知を取り消す', async () => {
+    const notify = createFakeNotify();
+    const reminders = await syncReminders(asClient(notify), 'u1', todo, oneDayByEmail);
+
+    expect(await syncReminders(asClient(notify), 'u1', { ...todo, completed: true, reminders }, oneDayByEmail)).toEqual([]);
+    expect(await syncReminders(asClient(notify), 'u1', { ...todo, dueDate: undefined, reminders }, oneDayByEmail)).toEqual([]);
+    expect(notify.cancel.mock.calls).toEqual([['n1'], ['n1']]);
+  });
+
+  it('通信エラーで変更できなかった通知は、次に再度試せるよう残す', async () => {
+    const notify = createFakeNotify();
+    const reminders = await syncReminders(asClient(notify), 'u1', todo, oneDayByEmail);
+    notify.cancel.mockResolvedValueOnce({ success: false, error: new NetworkError() });
+
+    expect(await syncReminders(asClient(notify), 'u1', { ...todo, completed: true, reminders }, oneDayByEmail)).toEqual(reminders);
+  });
+
+  it('送信済み・取り消し済み（404）の通知は登録し直す', async () => {
+    const notify = createFakeNotify();
+    const reminders = await syncReminders(asClient(notify), 'u1', todo, oneDayByEmail);
+    notify.reschedule.mockResolvedValueOnce({ success: false, error: new ApiError('見つかりません', { status: 404 }) });
+
+    const next = await syncReminders(asClient(notify), 'u1', { ...todo, title: '見積書を送る', reminders }, oneDayByEmail);
+    expect(notify.schedule).toHaveBeenCalledTimes(2);
+    expect(next).toEqual([{ id: 'n2', channel: 'email', leadMinutes: 24 * 60, dueDate: todo.dueDate }]);
+  });
+});
+
+describe('avoidQuietHours', () => {
+  const night = { start: '22:00', end: '07:00' };
+
+  it('通知しない時間帯の外ならそのまま', () => {
+    expect(avoidQuietHours(at(5, 12), at(6, 12), night)).toEqual(at(5, 12));
+    expect(avoidQuietHours(at(5, 23), at(6, 12))).toEqual(at(5, 23));
+  });
+
+  it('日をまたぐ時間帯に当たったら、終わった時刻にずらす', () => {
+    expect(avoidQuietHours(at(5, 23), at(6, 12), night)).toEqual(at(6, 7));
+    expect(avoidQuietHours(at(6, 3), at(6, 12), night)).toEqual(at(6, 7));
+  });
+
+  it('終わってからでは期限に間に合わなければ、始まる前にずらす', () => {
+    expect(avoidQuietHours(at(5, 23), at(6, 6), night)).toEqual(at(5, 21, 59));
+    expect(avoidQuietHours(at(6, 3), at(6, 6), night)).toEqual(at(5, 21, 59));
+  });
+
+  it('日をまたがない時間帯も扱える', () => {
+    expect(avoidQuietHours(at(5, 13), at(6, 12), { start: '12:00', end: '14:00' })).toEqual(at(5, 14));
+  });
+});
+
+describe('通知設定', () => {
+  const todo: RemindedTodo = { title: '請求書を送る', completed: false, dueDate: at(10, 9).toISOString() };
+
+  it('選んだ通知方法と通知時期の組み合わせごとに登録する', async () => {
+    const notify = createFakeNotify();
+    const reminders = await syncReminders(asClient(notify), 'u1', todo, { channels: ['email', 'push'], leadTimes: [24 * 60, 60] });
+
+    expect(reminders.map(({ channel, leadMinutes }) => `${channel}:${leadMinutes}`)).toEqual(['email:1440', 'email:60', 'push:1440', 'push:60']);
+    expect(notify.schedule.mock.calls.map(([options]) => options.scheduledAt)).toEqual([
+      at(9, 9).toISOString(),
+      at(10, 8).toISOString(),
+      at(9, 9).toISOString(),
+      at(10, 8).toISOString(),
+    ]);
+  });
+
+  it('設定を変えたら、外した組み合わせだけを取り消して新しい組み合わせを登録する', async () => {
+    const notify = createFakeNotify();
+    const reminders = await syncReminders(asClient(notify), 'u1', todo, { channels: ['email'], leadTimes: [24 * 60, 60] });
+    const next = await syncReminders(asClient(notify), 'u1', { ...todo, reminders }, { channels: ['email', 'in_app'], leadTimes: [60] });
+
+    expect(notify.cancel.mock.calls).toEqual([['n1']]);
+    expect(next.map(({ id, channel, leadMinutes }) => `${id}:${channel}:${leadMinutes}`)).toEqual(['n2:email:60', 'n3:in_app:60']);
+  });
+
+  it('通知時刻を過ぎた組み合わせは登録しない', async () => {
+    vi.setSystemTime(at(9, 12));
+    const notify = createFakeNotify();
+    const reminders = await syncReminders(asClient(notify), 'u1', todo, { channels: ['email'], leadTimes: [24 * 60, 60] });
+    expect(reminders.map(r => r.leadMinutes)).toEqual([60]);
+  });
+
+  it('通知しない時間帯を避けて登録する', async () => {
+    const notify = createFakeNotify();
+    await syncReminders(asClient(notify), 'u1', todo, { channels: ['email'], leadTimes: [10 * 60], quietHours: { start: '22:00', end: '07:00' } });
+    expect(notify.schedule.mock.calls[0][0].scheduledAt).toBe(at(10, 7).toISOString());
+  });
+});
+
+describe('hasStaleReminders', () => {
+  const reminder = { id: 'n1', channel: 'email' as const, leadMinutes: 60, dueDate: at(10, 9).toISOString() };
+
+  it('他のメンバーが完了したり期限を変えたりしたタスクのリマインダーは合わせ直す', () => {
+    expect(hasStaleReminders({ title: 'a', completed: true, dueDate: reminder.dueDate, reminders: [reminder] })).toBe(true);
+    expect(hasStaleReminders({ title: 'a', completed: false, dueDate: at(11, 9).toISOString(), reminders: [reminder] })).toBe(true);
+    expect(hasStaleReminders({ title: 'a', completed: false, reminders: [reminder] })).toBe(true);
+  });
+
+  it('登録したときの期限のままなら合わせ直さない', () => {
+    expect(hasStaleReminders({ title: 'a', completed: false, dueDate: reminder.dueDate, reminders: [reminder] })).toBe(false);
+    expect(hasStaleReminders({ title: 'a', completed: true })).toBe(false);
+  });
+});
+
+describe('cancelRemovedReminders', () => {
+  beforeEach(() => {
+    const values = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: (key: string, value: string) => values.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('前回あったリマインダーのうち、一覧から消えたタスクのものを取り消す', async () => {
+    const notify = createFakeNotify();
+    await cancelRemovedReminders(asClient(notify), 'u1', ['n1', 'n2']);
+    expect(notify.cancel).not.toHaveBeenCalled();
+
+    await cancelRemovedReminders(asClient(notify), 'u1', ['n2', 'n3']);
+    expect(notify.cancel.mock.calls).toEqual([['n1']]);
+  });
+
+  it('取り消せなかったものは次に読み込んだときに再度試す（404 は取り消し済みとみなす）', async () => {
+    const notify = createFakeNotify();
+    await cancelRemovedReminders(asClient(notify), 'u1', ['n1', 'n2']);
+    notify.cancel
+      .mockResolvedValueOnce({ success: false, error: new NetworkError() })
+      .mockResolvedValueOnce({ success: false, error: new ApiError('見つかりません', { status: 404 }) });
+    await cancelRemovedReminders(asClient(notify), 'u1', []);
+
+    notify.cancel.mockClear();
+    await cancelRemovedReminders(asClient(notify), 'u1', []);
+    expect(notify.cancel.mock.calls).toEqual([['n1']]);
+  });
+
+  it('ユーザーごとに分けて覚える', async () => {
+    const notify = createFakeNotify();
+    await cancelRemovedReminders(asClient(notify), 'u1', ['n1']);
+    await cancelRemovedReminders(asClient(notify), 'u2', []);
+    expect(notify.cancel).not.toHaveBeenCalled();
+  });
+});
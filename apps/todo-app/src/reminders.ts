@@ -0,0 +1,151 @@
+import { s, type Infer, type NotifyClient } from 'nanobase-client';
+
+// ==========================================
+// リマインダー
+// ==========================================
+// Notico の通知チャネル
+export const CHANNELS = ['email', 'push', 'in_app'] as const;
+export type Channel = typeof CHANNELS[number];
+
+export const reminderSchema = s.object({
+  id: s.string(),
+  channel: s.literal(...CHANNELS),
+  // 期限の何分前か
+  leadMinutes: s.number(),
+  // 登録したときの期限。共有リストの他のメンバーが期限を変えたら、作成者の端末で合わせ直す
+  dueDate: s.optional(s.string()),
+});
+
+export type Reminder = Infer<typeof reminderSchema>;
+
+// ユーザーごとに1件だけ作る通知設定
+export const notificationSettingsSchema = s.object({
+  channels: s.array(s.literal(...CHANNELS)),
+  leadTimes: s.array(s.number()),
+  // この時間帯（端末の時刻 HH:mm、日をまたいでもよい）には通知しない
+  quietHours: s.optional(s.object({ start: s.string(), end: s.string() })),
+});
+
+export type NotificationSettings = Infer<typeof notificationSettingsSchema>;
+
+// 設定を保存していないユーザーは、従来どおり期限1日前にメールで通知する
+export const DEFAULT_SETTINGS: NotificationSettings = { channels: ['email'], leadTimes: [24 * 60] };
+
+// リマインダーを付けるタスクの項目
+export interface RemindedTodo {
+  title: string;
+  completed: boolean;
+  dueDate?: string;
+  reminders?: Reminder[];
+}
+
+export function formatLeadTime(minutes: number) {
+  if (minutes % (7 * 24 * 60) === 0) return `${minutes / (7 * 24 * 60)}週間`;
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)}日`;
+  if (minutes % 60 === 0) return `${minutes / 60}時間`;
+  return `${minutes}分`;
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+function isQuietTime(date: Date, quietHours: { start: string; end: string }) {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+// 通知しない時間帯に当たったら、終わった時刻にずらす。それでは期限に間に合わなければ、始まる前にずらす
+export function avoidQuietHours(time: Date, dueDate: Date, quietHours?: NotificationSettings['quietHours']) {
+  if (!quietHours || !isQuietTime(time, quietHours)) return time;
+  const end = new Date(time);
+  end.setHours(0, toMinutes(quietHours.end), 0, 0);
+  if (end <= time) end.setDate(end.getDate() + 1);
+  if (end < dueDate) return end;
+  const start = new Date(time);
+  start.setHours(0, toMinutes(quietHours.start) - 1, 0, 0);
+  if (start > time) start.setDate(start.getDate() - 1);
+  return start;
+}
+
+const reminderMessage = (title: string, leadMinutes: number) => `「${title}」の期限まであと${formatLeadTime(leadMinutes)}です`;
+
+const sameKind = (a: Pick<Reminder, 'channel' | 'leadMinutes'>, b: Pick<Reminder, 'channel' | 'leadMinutes'>) =>
+  a.channel === b.channel && a.leadMinutes === b.leadMinutes;
+
+// タスクの内容と通知設定に合わせてリマインダーを登録・変更・取り消しし、タスクに保存する一覧を返す
+export async function syncReminders(notify: NotifyClient, userId: string, todo: RemindedTodo, settings: NotificationSettings): Promise<Reminder[]> {
+  const now = new Date();
+  const dueDate = todo.dueDate ? new Date(todo.dueDate) : null;
+  // 完了済み・期限なし・通知時刻を過ぎたものは送らない
+  const wanted = todo.completed || !dueDate ? [] : settings.channels.flatMap(channel =>
+    settings.leadTimes.map(leadMinutes => ({
+      channel,
+      leadMinutes,
+      scheduledAt: avoidQuietHours(new Date(dueDate.getTime() - leadMinutes * 60 * 1000), dueDate, settings.quietHours),
+    }))
+  ).filter(target => target.scheduledAt > now);
+
+  const reminders: Reminder[] = [];
+  for (const reminder of todo.reminders || []) {
+    const target = wanted.find(w => sameKind(w, reminder));
+    const result = target
+      ? await notify.reschedule(reminder.id, { scheduledAt: target.scheduledAt.toISOString(), message: reminderMessage(todo.title, reminder.leadMinutes) })
+      : await notify.cancel(reminder.id);
+    if (result.success) {
+      if (target) reminders.push({ ...reminder, dueDate: todo.dueDate });
+      continue;
+    }
+    // 通信エラーなどで変更できなかったときは、次の変更で再度試せるよう残す
+    // （404 は送信済みか取り消し済みなので、必要なら登録し直す）
+    if (result.error?.status !== 404) reminders.push(reminder);
+  }
+
+  for (const target of wanted) {
+    if (reminders.some(r => sameKind(r, target))) continue;
+    const result = await notify.schedule({
+      userId,
+      type: target.channel,
+      subject: 'タスクリマインダー',
+      message: reminderMessage(todo.title, target.leadMinutes),
+      scheduledAt: target.scheduledAt.toISOString(),
+    });
+    if (result.success && result.data) {
+      reminders.push({ id: result.data.id, channel: target.channel, leadMinutes: target.leadMinutes, dueDate: todo.dueDate });
+    }
+  }
+  return reminders;
+}
+
+export const cancelReminders = (notify: NotifyClient, reminders: Reminder[] = []) =>
+  Promise.all(reminders.map(reminder => notify.cancel(reminder.id)));
+
+// 完了・期限の変更のあと、まだ合わせ直していないリマインダーがあるか
+export const hasStaleReminders = (todo: RemindedTodo) =>
+  (todo.reminders || []).some(reminder => todo.completed || reminder.dueDate !== todo.dueDate);
+
+// 自分のタスクに付いているリマインダーのIDを端末に覚えておき、
+// 他のメンバーがタスクを削除して一覧から消えたら、そのリマインダーを取り消す
+const reminderLedgerKey = (userId: string) => `todo-app:reminders:${userId}`;
+
+function readReminderLedger(userId: string): string[] {
+  try {
+    const ids: unknown = JSON.parse(localStorage.getItem(reminderLedgerKey(userId)) || '[]');
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function cancelRemovedReminders(notify: NotifyClient, userId: string, reminderIds: string[]) {
+  const failed: string[] = [];
+  for (const id of readReminderLedger(userId).filter(id => !reminderIds.includes(id))) {
+    const result = await notify.cancel(id);
+    // 通信エラーなどで取り消せなかったものは、次に読み込んだときに再度試す
+    if (!result.success && result.error?.status !== 404) failed.push(id);
+  }
+  localStorage.setItem(reminderLedgerKey(userId), JSON.stringify([...reminderIds, ...failed]));
+}
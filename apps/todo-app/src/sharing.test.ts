@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { assigneeCandidates, canEditTodo, isMine, roleOf, type SharedList } from './sharing';
+
+const list: SharedList = {
+  id: 'l1',
+  userId: 'owner',
+  data: {
+    ownerEmail: 'owner@example.com',
+    members: [
+      { userId: 'editor', email: 'editor@example.com', role: 'editor' },
+      { userId: 'viewer', email: 'viewer@example.com', role: 'viewer' },
+    ],
+  },
+};
+
+describe('isMine', () => {
+  it('サーバーが付けた作成者で判定する', () => {
+    expect(isMine({ id: 'a', userId: 'u1' }, 'u1')).toBe(true);
+    expect(isMine({ id: 'a', userId: 'u2' }, 'u1')).toBe(false);
+  });
+
+  it('作成者の付いていない仮IDのレコードは自分のもの、サーバーのIDなら他人のものとみなす', () => {
+    expect(isMine({ id: 'local-abc' }, 'u1')).toBe(true);
+    expect(isMine({ id: 'a' }, 'u1')).toBe(false);
+  });
+});
+
+describe('roleOf', () => {
+  it('作成者はオーナー、メンバーは招待されたときの権限', () => {
+    expect(roleOf(list, 'owner')).toBe('owner');
+    expect(roleOf(list, 'editor')).toBe('editor');
+    expect(roleOf(list, 'viewer')).toBe('viewer');
+  });
+
+  it('メンバーから外れたユーザーは閲覧のみ', () => {
+    expect(roleOf(list, 'stranger')).toBe('viewer');
+  });
+});
+
+describe('canEditTodo', () => {
+  const todo = (userId: string, listId?: string) => ({ id: `t-${userId}`, userId, data: { listId } });
+
+  it('自分のタスクはリストの権限に関係なく編集できる', () => {
+    expect(canEditTodo(todo('viewer', 'l1'), [list], 'viewer')).toBe(true);
+  });
+
+  it('他のメンバーのタスクは、オーナーと編集できるメンバーだけが編集できる', () => {
+    expect(canEditTodo(todo('editor', 'l1'), [list], 'owner')).toBe(true);
+    expect(canEditTodo(todo('owner', 'l1'), [list], 'editor')).toBe(true);
+    expect(canEditTodo(todo('owner', 'l1'), [list], 'viewer')).toBe(false);
+  });
+
+  it('リストが見つからない他人のタスクは編集できない', () => {
+    expect(canEditTodo(todo('owner'), [list], 'editor')).toBe(false);
+    expect(canEditTodo(todo('owner', 'deleted'), [list], 'editor')).toBe(false);
+  });
+});
+
+describe('assigneeCandidates', () => {
+  it('オーナーと編集できるメンバーを返す', () => {
+    expect(assigneeCandidates(list)).toEqual([
+      { userId: 'owner', email: 'owner@example.com' },
+      { userId: 'editor', email: 'editor@example.com' },
+    ]);
+  });
+
+  it('同期前のリストにはまだオーナーを選べない', () => {
+    expect(assigneeCandidates({ id: 'local-abc', data: {} })).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { isLocalId, type Member } from 'nanobase-client';
+
+// ==========================================
+// 共有と権限
+// ==========================================
+export type ListRole = 'owner' | 'editor' | 'viewer';
+
+// サーバーが作成者の userId を付けるレコード
+interface OwnedRecord {
+  id: string;
+  userId?: string;
+}
+
+export interface SharedList extends OwnedRecord {
+  data: { ownerEmail?: string; members?: Member[] };
+}
+
+export interface ListedTodo extends OwnedRecord {
+  data: { listId?: string };
+}
+
+// 同期前（仮ID）のレコードにはまだ userId が付いていないが、作ったのは自分
+export const isMine = (record: OwnedRecord, userId: string) =>
+  record.userId ? record.userId === userId : isLocalId(record.id);
+
+export function roleOf(list: SharedList, userId: string): ListRole {
+  if (isMine(list, userId)) return 'owner';
+  return list.data.members?.find(member => member.userId === userId)?.role || 'viewer';
+}
+
+// 自分が作ったタスクと、閲覧のみではないリストのタスクは編集できる（リストが見つからなければ編集できない）
+export function canEditTodo(todo: ListedTodo, lists: SharedList[], userId: string) {
+  if (isMine(todo, userId)) return true;
+  const list = lists.find(l => l.id === todo.data.listId);
+  return !!list && roleOf(list, userId) !== 'viewer';
+}
+
+// 担当者に選べるのはリストのオーナーと編集できるメンバー
+export function assigneeCandidates(list: SharedList) {
+  const owner = list.userId ? [{ userId: list.userId, email: list.data.ownerEmail || 'オーナー' }] : [];
+  const editors = (list.data.members || []).filter(member => member.role === 'editor');
+  return [...owner, ...editors.map(({ userId, email }) => ({ userId, email }))];
+}
@@ -0,0 +1,53 @@
+import type { ApiFetch } from './http';
+import type { Session } from './session';
+import type { AuthSession, User } from './types';
+
+// EasyAuth API
+export function createAuth(apiFetch: ApiFetch, baseUrl: string, session: Session) {
+  return {
+    async signup(email: string, password: string) {
+      const result = await apiFetch<AuthSession>(`${baseUrl}/api/v1/auth/signup-email`, {
+        method: 'POST',
+        body: JSON.stringify({ email, password }),
+        auth: false,
+      });
+      if (result.success && result.data) session.setTokens(result.data.token, result.data.refreshToken);
+      return result;
+    },
+    async login(email: string, password: string) {
+      const result = await apiFetch<AuthSession>(`${baseUrl}/api/v1/auth/login-email`, {
+        method: 'POST',
+        body: JSON.stringify({ email, password }),
+        auth: false,
+      });
+      if (result.success && result.data) session.setTokens(result.data.token, result.data.refreshToken);
+      return result;
+    },
+    async me() {
+      return apiFetch<User>(`${baseUrl}/api/v1/auth/me`);
+    },
+    // 同じプロジェクトのユーザーをメールアドレスで探す（共有メンバーの招待用）。見つからなければ 404
+    async findUser(email: string) {
+      return apiFetch<User>(`${baseUrl}/api/v1/auth/users?email=${encodeURIComponent(email)}`);
+    },
+    async logout() {
+      try {
+        await apiFetch(`${baseUrl}/api/v1/auth/logout`, { method: 'POST' });
+      } finally {
+        session.clear();
+      }
+    },
+    isLoggedIn() {
+      return session.isActive();
+    },
+    async refresh() {
+      return session.refresh();
+    },
+    // トークンの更新に失敗してログアウト状態になったときに呼ばれる
+    onSessionExpired(listener: () => void) {
+      return session.onExpired(listener);
+    },
+  };
+}
+
+export type AuthClient = ReturnType<typeof createAuth>;
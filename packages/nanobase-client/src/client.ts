@@ -0,0 +1,47 @@
+import { createApiFetch, DEFAULT_HTTP_OPTIONS } from './http';
+import { createSession } from './session';
+import { createAuth } from './auth';
+import { createData } from './data';
+import { createFiles } from './files';
+import { createNotify } from './notify';
+import { createMonitor } from './monitor';
+import { withOffline, withoutOffline } from './offline';
+import type { ClientConfig, ServiceUrls } from './types';
+
+export const DEFAULT_URLS: ServiceUrls = {
+  easyauth: 'http://localhost:3201',
+  pocketdata: 'http://localhost:3202',
+  notico: 'http://localhost:3203',
+  monitor: 'http://localhost:3204',
+};
+
+export function createClient(config: ClientConfig) {
+  const urls: ServiceUrls = {
+    easyauth: config.urls?.easyauth || DEFAULT_URLS.easyauth,
+    pocketdata: config.urls?.pocketdata || DEFAULT_URLS.pocketdata,
+    notico: config.urls?.notico || DEFAULT_URLS.notico,
+    monitor: config.urls?.monitor || DEFAULT_URLS.monitor,
+  };
+  const session = createSession(config.projectId, urls.easyauth);
+  const apiFetch = createApiFetch(config.projectId, session, {
+    ...DEFAULT_HTTP_OPTIONS,
+    timeout: config.timeout ?? DEFAULT_HTTP_OPTIONS.timeout,
+    retries: config.retries ?? DEFAULT_HTTP_OPTIONS.retries,
+  });
+
+  const data = createData(apiFetch, urls.pocketdata, { projectId: config.projectId, session, onInvalidRecord: config.onInvalidRecord });
+
+  return {
+    auth: createAuth(apiFetch, urls.easyauth, session),
+    data: config.offline
+      ? withOffline(data, config.projectId, session, config.offline === true ? {} : config.offline)
+      : withoutOffline(data),
+    files: createFiles(apiFetch, urls.pocketdata, { projectId: config.projectId, session }),
+    notify: createNotify(apiFetch, urls.notico),
+    monitor: createMonitor(apiFetch, urls.monitor),
+    // 独自のエンドポイントを同じ認証・エラー処理で呼ぶとき用
+    apiFetch,
+  };
+}
+
+export type NanobaseClient = ReturnType<typeof createClient>;
@@ -0,0 +1,197 @@
+import { ApiError, ValidationError } from './errors';
+import type { ApiFetch } from './http';
+import { toSearchParams, withQuery, type ListQuery, type Where } from './query';
+import {
+  openChangeStream,
+  pollChanges,
+  type ChangeEvent,
+  type RawChangeEvent,
+  type SubscribeOptions,
+  type Unsubscribe,
+} from './realtime';
+import type { Collection } from './schema';
+import { decodeTokenExpiry, type Session } from './session';
+import type { ApiResult, DataRecord, InvalidRecordHandler } from './types';
+
+// コレクション名の文字列か、スキーマ付きのコレクション定義を受け付ける
+export type CollectionRef<T> = string | Collection<T>;
+
+// 変更する項目だけを送る。省略可能な項目は null で削除できる（undefined はJSONで送られないため）
+export type RecordChanges<T> = { [K in keyof T]?: undefined extends T[K] ? T[K] | null : T[K] };
+
+export const collectionName = <T>(collection: CollectionRef<T>) => (typeof collection === 'string' ? collection : collection.name);
+
+const LIST_ALL_PAGE_SIZE = 100;
+const INVALID_RECORD_MESSAGE = 'データの形式が正しくありません';
+
+const defaultInvalidRecordHandler: InvalidRecordHandler = (collection, record, issues) => {
+  console.warn(`[nanobase] ${collection} の不正なレコードをスキップしました`, record, issues);
+};
+
+export interface DataOptions {
+  projectId: string;
+  session: Session;
+  onInvalidRecord?: InvalidRecordHandler;
+}
+
+// PocketData API
+export function createData(apiFetch: ApiFetch, baseUrl: string, options: DataOptions) {
+  const { projectId, session, onInvalidRecord = defaultInvalidRecordHandler } = options;
+  // アクセスルールはサーバーがプロジェクトの設定から決めるので、リクエストには含めない
+  const collectionUrl = <T>(collection: CollectionRef<T>) => `${baseUrl}/api/v1/data/${collectionName(collection)}`;
+
+  // 古い形式なら migrate で変換してから検証する。変換しても合わなければnull
+  const upgrade = <T>(collection: Collection<T>, value: Record<string, unknown>) => {
+    const result = collection.schema.parse(value);
+    if (result.ok || !collection.migrate) return result;
+    const migrated = collection.migrate(value);
+    return migrated ? collection.schema.parse(migrated) : result;
+  };
+
+  // スキーマがあれば検証し、不正なレコードは報告してnullを返す
+  const validate = <T>(collection: CollectionRef<T>, record: DataRecord): DataRecord<T> | null => {
+    if (typeof collection === 'string') return record as DataRecord<T>;
+    const result = upgrade(collection, record.data);
+    if (result.ok) return { ...record, data: result.value };
+    onInvalidRecord(collection.name, record, result.issues);
+    return null;
+  };
+
+  const list = async <T = Record<string, unknown>>(collection: CollectionRef<T>, query?: ListQuery<T>): Promise<ApiResult<DataRecord<T>[]>> => {
+    const result = await apiFetch<DataRecord[]>(withQuery(collectionUrl(collection), toSearchParams(query)));
+    if (!result.success || !result.data) return result as ApiResult<DataRecord<T>[]>;
+    const records = result.data
+      .map(record => validate(collection, record))
+      .filter((record): record is DataRecord<T> => record !== null);
+    return { ...result, data: records };
+  };
+
+  return {
+    list,
+    // カーソルをたどって全ページを順に返す
+    async *listAll<T = Record<string, unknown>>(collection: CollectionRef<T>, query: Omit<ListQuery<T>, 'cursor'> = {}): AsyncGenerator<DataRecord<T>> {
+      let cursor: string | undefined;
+      do {
+        const result = await list(collection, { limit: LIST_ALL_PAGE_SIZE, ...query, cursor });
+        if (!result.success || !result.data) {
+          throw result.error || new ApiError(`${collectionName(collection)} の取得に失敗しました`);
+        }
+        yield* result.data;
+        cursor = result.meta?.nextCursor || undefined;
+      } while (cursor);
+    },
+    // 変更（insert / update / delete）を購読する。戻り値を呼ぶと購読を解除する
+    subscribe<T = Record<string, unknown>>(
+      collection: CollectionRef<T>,
+      where: Where<T>,
+      handler: (event: ChangeEvent<T>) => void,
+      options: SubscribeOptions = {}
+    ): Unsubscribe {
+      const { transport = 'auto', pollInterval, since } = options;
+      const emit = (event: RawChangeEvent) => {
+        if (event.type === 'delete') {
+          handler(event);
+          return;
+        }
+        const record = validate(collection, event.record);
+        if (record) handler({ type: event.type, record });
+      };
+      const startPolling = (from?: string) =>
+        pollChanges(
+          async cursor => {
+            // 起点がなければ、サーバーの時刻を知るためだけに1件取得する
+            const query: ListQuery<T> = cursor ? { where, updatedAfter: cursor } : { where, limit: 1 };
+            const result = await apiFetch<DataRecord[]>(withQuery(collectionUrl(collection), toSearchParams(query)));
+            return result.success ? { records: cursor ? result.data || [] : [], serverTime: result.meta?.serverTime } : undefined;
+          },
+          emit,
+          pollInterval,
+          from
+        );
+
+      // EventSourceはヘッダーを付けられないので、トークンとプロジェクトIDをクエリで渡す
+      // 接続のたびに期限の近いトークンを更新し、ログインしていたのにトークンが無くなったら（更新失敗）SSEを諦める
+      const connect = async (from?: string) => {
+        const hadToken = session.getToken() !== null;
+        const token = await session.getValidToken();
+        if (hadToken && !token) return null;
+        const params = toSearchParams({ where, updatedAfter: from });
+        params.set('projectId', projectId);
+        if (token) params.set('token', token);
+        return { url: withQuery(`${collectionUrl(collection)}/stream`, params), expiresAt: token ? decodeTokenExpiry(token) : null };
+      };
+
+      let stop: Unsubscribe;
+      let stopped = false;
+      if (transport !== 'polling' && typeof EventSource !== 'undefined') {
+        // 認証切れなどでSSEを張れなくなったら、401を処理できるポーリングに切り替える
+        stop = openChangeStream(connect, emit, from => {
+          if (transport === 'auto' && !stopped) stop = startPolling(from);
+        }, since);
+      } else {
+        stop = startPolling(since);
+      }
+      return () => {
+        stopped = true;
+        stop();
+      };
+    },
+    async get<T = Record<string, unknown>>(collection: CollectionRef<T>, id: string): Promise<ApiResult<DataRecord<T>>> {
+      const result = await apiFetch<DataRecord>(`${collectionUrl(collection)}/${id}`);
+      if (!result.success || !result.data) return result as ApiResult<DataRecord<T>>;
+      const record = validate(collection, result.data);
+      return record ? { ...result, data: record } : { success: false, error: new ValidationError(INVALID_RECORD_MESSAGE) };
+    },
+    async create<T = Record<string, unknown>>(collection: CollectionRef<T>, record: T): Promise<ApiResult<DataRecord<T>>> {
+      // 送信前に検証して、壊れたデータを保存しない
+      if (typeof collection !== 'string') {
+        const parsed = collection.schema.parse(record);
+        if (!parsed.ok) {
+          onInvalidRecord(collection.name, record, parsed.issues);
+          return { success: false, error: new ValidationError(INVALID_RECORD_MESSAGE) };
+        }
+      }
+      return apiFetch<DataRecord<T>>(collectionUrl(collection), {
+        method: 'POST',
+        body: JSON.stringify(record),
+      });
+    },
+    // migrate が必要な古い形式のレコードを変換して保存し直す。保存した件数を返す
+    async migrate<T>(collection: Collection<T>): Promise<ApiResult<number>> {
+      if (!collection.migrate) return { success: true, data: 0 };
+      let migrated = 0;
+      let cursor: string | undefined;
+      do {
+        // 変換前のデータが必要なので、検証を通さずに取得する
+        const result = await apiFetch<DataRecord[]>(withQuery(collectionUrl(collection), toSearchParams({ limit: LIST_ALL_PAGE_SIZE, cursor })));
+        if (!result.success || !result.data) return { success: false, error: result.error };
+        for (const record of result.data) {
+          if (collection.schema.parse(record.data).ok) continue;
+          const upgraded = upgrade(collection, record.data);
+          if (!upgraded.ok) continue;
+          const saved = await apiFetch(`${collectionUrl(collection)}/${record.id}`, {
+            method: 'PATCH',
+            body: JSON.stringify(upgraded.value),
+          });
+          if (!saved.success) return { success: false, error: saved.error };
+          migrated++;
+        }
+        cursor = result.meta?.nextCursor || undefined;
+      } while (cursor);
+      return { success: true, data: migrated };
+    },
+    async update<T = Record<string, unknown>>(collection: CollectionRef<T>, id: string, record: RecordChanges<T>): Promise<ApiResult<DataRecord<T>>> {
+      return apiFetch<DataRecord<T>>(`${collectionUrl(collection)}/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(record),
+      });
+    },
+    async delete<T>(collection: CollectionRef<T>, id: string) {
+      return apiFetch(`${collectionUrl(collection)}/${id}`, {
+        method: 'DELETE',
+      });
+    },
+  };
+}
+
+export type DataClient = ReturnType<typeof createData>;
@@ -0,0 +1,12 @@
+// ==========================================
+// 書き出したテキストをファイルとしてダウンロードさせる
+// ==========================================
+export function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // すぐに解放するとダウンロードが始まる前にURLが無効になるブラウザがあるので、少し待つ
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,76 @@
+// ==========================================
+// APIエラー（メッセージはそのまま画面に表示できる日本語）
+// ==========================================
+export interface ApiErrorOptions {
+  status?: number;
+  code?: string;
+}
+
+export class ApiError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+
+  constructor(message = 'エラーが発生しました', options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.code = options.code;
+  }
+}
+
+// サーバーに届かなかった（オフライン・DNS・CORSなど）
+export class NetworkError extends ApiError {
+  constructor(message = '通信エラーが発生しました', options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message = '通信がタイムアウトしました', options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+// 401 / 403
+export class AuthError extends ApiError {
+  constructor(message = '認証に失敗しました', options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'AuthError';
+  }
+}
+
+// 400 / 422、またはスキーマ検証の失敗
+export class ValidationError extends ApiError {
+  constructor(message = '入力内容に誤りがあります', options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'ValidationError';
+  }
+}
+
+// 5xx、または読み取れないレスポンス
+export class ServerError extends ApiError {
+  constructor(message = 'サーバーエラーが発生しました', options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'ServerError';
+  }
+}
+
+// ステータスコードとサーバーのエラー本文から適切なエラーを作る
+export function errorFromResponse(status: number, body?: { message?: string; code?: string }): ApiError {
+  const message = body?.message || undefined;
+  const options = { status, code: body?.code };
+  if (status === 401 || status === 403) return new AuthError(message, options);
+  if (status === 400 || status === 422) return new ValidationError(message, options);
+  if (status >= 500) return new ServerError(message, options);
+  return new ApiError(message, options);
+}
+
+// 時間をおけば成功する見込みがあるエラーか
+export function isRetryable(error: unknown) {
+  return error instanceof NetworkError
+    || error instanceof TimeoutError
+    || error instanceof ServerError
+    || (error instanceof ApiError && error.status === 429);
+}
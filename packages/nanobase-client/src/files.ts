@@ -0,0 +1,118 @@
+import { ApiError, NetworkError, TimeoutError, ValidationError } from './errors';
+import { parseResponse, type ApiFetch } from './http';
+import type { Session } from './session';
+import type { ApiResult } from './types';
+
+// ==========================================
+// ファイル保存（PocketDataのblobエンドポイント、未対応ならbase64で埋め込む）
+// ==========================================
+export interface StoredFile {
+  // blobエンドポイントに保存したときのID。base64で埋め込んだ場合はなし
+  id?: string;
+  // 表示用のURL（埋め込みの場合は data: URL）
+  url: string;
+  contentType: string;
+  size: number;
+}
+
+export interface UploadOptions {
+  onProgress?: (loaded: number, total: number) => void;
+  timeout?: number;
+}
+
+export interface FilesOptions {
+  projectId: string;
+  session: Session;
+  // base64で埋め込むときの上限。大きいファイルをレコードに入れないようにする
+  maxInlineSize?: number;
+}
+
+const UPLOAD_TIMEOUT = 60 * 1000;
+const DEFAULT_MAX_INLINE_SIZE = 512 * 1024;
+// ファイル保存に対応していないサーバーが返すステータス
+const UNSUPPORTED_STATUSES = [404, 405, 501];
+
+function toDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function createFiles(apiFetch: ApiFetch, baseUrl: string, options: FilesOptions) {
+  const { projectId, session, maxInlineSize = DEFAULT_MAX_INLINE_SIZE } = options;
+  const filesUrl = `${baseUrl}/api/v1/files`;
+  // 一度未対応とわかったら、以降はアップロードを試さない
+  let blobSupported = true;
+
+  // サーバーが相対URLを返しても、アプリのどのページ（公開ページなど）からでも表示できるようにする
+  const resolveUrl = (url: string) => new URL(url, `${baseUrl}/`).href;
+
+  // 進捗を取るため fetch ではなく XMLHttpRequest で送る
+  const send = (blob: Blob, token: string | null, upload: UploadOptions) =>
+    new Promise<Response>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', filesUrl);
+      xhr.timeout = upload.timeout ?? UPLOAD_TIMEOUT;
+      xhr.setRequestHeader('X-Project-Id', projectId);
+      if (token) xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+      xhr.upload.onprogress = event => {
+        if (event.lengthComputable) upload.onProgress?.(event.loaded, event.total);
+      };
+      // ステータス0（CORSで拒否されたなど）は Response にできないので通信エラーとして扱う
+      xhr.onload = () => {
+        if (xhr.status === 0) reject(new NetworkError());
+        else resolve(new Response(xhr.responseText || null, { status: xhr.status }));
+      };
+      xhr.onerror = () => reject(new NetworkError());
+      xhr.ontimeout = () => reject(new TimeoutError());
+
+      const form = new FormData();
+      form.append('file', blob, blob instanceof File ? blob.name : 'file');
+      xhr.send(form);
+    });
+
+  const uploadBlob = async (blob: Blob, upload: UploadOptions): Promise<ApiResult<StoredFile> | null> => {
+    const token = await session.getValidToken();
+    let response = await send(blob, token, upload);
+    if (response.status === 401 && token) {
+      if (await session.refresh()) response = await send(blob, session.getToken(), upload);
+      if (response.status === 401) session.expire();
+    }
+    if (UNSUPPORTED_STATUSES.includes(response.status)) return null;
+    const result = await parseResponse<StoredFile>(response);
+    return result.success && result.data ? { ...result, data: { ...result.data, url: resolveUrl(result.data.url) } } : result;
+  };
+
+  return {
+    resolveUrl,
+    async upload(blob: Blob, upload: UploadOptions = {}): Promise<ApiResult<StoredFile>> {
+      if (blobSupported) {
+        try {
+          const result = await uploadBlob(blob, upload);
+          if (result) return result;
+          blobSupported = false;
+        } catch (err) {
+          if (err instanceof ApiError) return { success: false, error: err };
+          throw err;
+        }
+      }
+
+      if (blob.size > maxInlineSize) {
+        return { success: false, error: new ValidationError(`ファイルが大きすぎます（${Math.round(maxInlineSize / 1024)}KBまで）`) };
+      }
+      const url = await toDataUrl(blob);
+      upload.onProgress?.(blob.size, blob.size);
+      return { success: true, data: { url, contentType: blob.type, size: blob.size } };
+    },
+    // 埋め込みのファイルはレコードと一緒に消えるので何もしない
+    async delete(file: Pick<StoredFile, 'id'>): Promise<ApiResult<unknown>> {
+      if (!file.id) return { success: true };
+      return apiFetch(`${filesUrl}/${file.id}`, { method: 'DELETE' });
+    },
+  };
+}
+
+export type FilesClient = ReturnType<typeof createFiles>;
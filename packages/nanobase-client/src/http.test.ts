@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthError, NetworkError, ServerError, TimeoutError, ValidationError } from './errors';
+import { createApiFetch, parseResponse } from './http';
+import type { Session } from './session';
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+const fakeSession = (token: string | null = 'token') => ({
+  getValidToken: vi.fn(async () => token),
+  getToken: vi.fn(() => 'renewed'),
+  refresh: vi.fn(async () => false),
+  expire: vi.fn(),
+});
+
+describe('parseResponse', () => {
+  it('封筒の data と meta を返す', async () => {
+    expect(await parseResponse(json({ success: true, data: { id: 'a' }, meta: { total: 1 } }))).toEqual({
+      success: true,
+      data: { id: 'a' },
+      meta: { total: 1 },
+    });
+  });
+
+  it('204の空レスポンスは成功として扱う', async () => {
+    expect(await parseResponse(new Response(null, { status: 204 }))).toEqual({ success: true, data: undefined });
+  });
+
+  it('プロキシのHTMLエラーページはステータスに応じたエラーにする', async () => {
+    const result = await parseResponse(new Response('<html>Bad Gateway</html>', { status: 502 }));
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(ServerError);
+    expect(result.error?.status).toBe(502);
+  });
+
+  it('成功ステータスでも読み取れない本文はサーバーエラーにする', async () => {
+    const result = await parseResponse(new Response('<html>', { status: 200 }));
+    expect(result.error).toBeInstanceOf(ServerError);
+    expect(result.error?.message).toBe('サーバーの応答を読み取れませんでした');
+  });
+
+  it('サーバーのメッセージとコードを種類ごとのエラーに載せる', async () => {
+    const invalid = await parseResponse(json({ success: false, error: { message: 'メールアドレスの形式が正しくありません', code: 'INVALID_EMAIL' } }, 422));
+    expect(invalid.error).toBeInstanceOf(ValidationError);
+    expect(invalid.error).toMatchObject({ message: 'メールアドレスの形式が正しくありません', code: 'INVALID_EMAIL' });
+
+    const denied = await parseResponse(json({ success: false }, 403));
+    expect(denied.error).toBeInstanceOf(AuthError);
+    expect(denied.error?.message).toBe('認証に失敗しました');
+  });
+});
+
+describe('createApiFetch', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  const options = { timeout: 1000, retries: 2, retryDelay: 100 };
+
+  it('トークンとプロジェクトIDを付けて送る', async () => {
+    fetchMock.mockResolvedValue(json({ success: true, data: [] }));
+    const apiFetch = createApiFetch('todo-app', fakeSession() as unknown as Session, options);
+    await apiFetch('/api/v1/records');
+    const headers = fetchMock.mock.calls[0][1]?.headers as Record<string, string>;
+    expect(headers['Authorization']).toBe('Bearer token');
+    expect(headers['X-Project-Id']).toBe('todo-app');
+  });
+
+  it('GETはサーバーエラーのあと待ち時間を倍々に伸ばして再試行する', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('', { status: 503 }))
+      .mockResolvedValueOnce(new Response('', { status: 503 }))
+      .mockResolvedValueOnce(json({ success: true, data: 'ok' }));
+    const apiFetch = createApiFetch('p', fakeSession() as unknown as Session, options);
+    const pending = apiFetch<string>('/a');
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(await pending).toEqual({ success: true, data: 'ok' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('POSTは二重に作られないよう再試行しない', async () => {
+    fetchMock.mockResolvedValue(new Response('', { status: 503 }));
+    const apiFetch = createApiFetch('p', fakeSession() as unknown as Session, options);
+    const result = await apiFetch('/a', { method: 'POST', body: '{}' });
+    expect(result.error).toBeInstanceOf(ServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('入力エラーは再試行しない', async () => {
+    fetchMock.mockResolvedValue(json({ success: false }, 400));
+    const apiFetch = createApiFetch('p', fakeSession() as unknown as Session, options);
+    expect((await apiFetch('/a')).error).toBeInstanceOf(ValidationError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('届かなかったリクエストは NetworkError として返す', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    const apiFetch = createApiFetch('p', fakeSession() as unknown as Session, { ...options, retries: 0 });
+    expect((await apiFetch('/a')).error).toBeInstanceOf(NetworkError);
+  });
+
+  it('時間内に応答がなければ中断して TimeoutError を返す', async () => {
+    fetchMock.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    }));
+    const apiFetch = createApiFetch('p', fakeSession() as unknown as Session, { ...options, retries: 0 });
+    const pending = apiFetch('/a');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect((await pending).error).toBeInstanceOf(TimeoutError);
+  });
+
+  it('401ではトークンを一度だけ更新して送り直し、だめならセッション切れにする', async () => {
+    fetchMock.mockResolvedValue(json({ success: false }, 401));
+    const session = fakeSession();
+    session.refresh.mockResolvedValue(true);
+    const apiFetch = createApiFetch('p', session as unknown as Session, options);
+
+    expect((await apiFetch('/a')).error).toBeInstanceOf(AuthError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect((fetchMock.mock.calls[1][1]?.headers as Record<string, string>)['Authorization']).toBe('Bearer renewed');
+    expect(session.expire).toHaveBeenCalledTimes(1);
+  });
+});
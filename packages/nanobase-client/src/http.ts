@@ -0,0 +1,120 @@
+import { ApiError, NetworkError, ServerError, TimeoutError, errorFromResponse, isRetryable } from './errors';
+import type { Session } from './session';
+import type { ApiResult } from './types';
+
+export interface HttpOptions {
+  timeout: number;
+  retries: number;
+  // 再試行の初回待ち時間（以降は倍々に伸ばす）
+  retryDelay: number;
+}
+
+export const DEFAULT_HTTP_OPTIONS: HttpOptions = {
+  timeout: 10000,
+  retries: 2,
+  retryDelay: 300,
+};
+
+// 何度送っても結果が変わらないメソッドだけ自動で再試行する
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
+export interface ApiFetchOptions extends RequestInit {
+  // false にするとトークンを付けず、401時の更新もしない（ログイン・新規登録用）
+  auth?: boolean;
+  timeout?: number;
+  retries?: number;
+}
+
+export type ApiFetch = <T>(url: string, options?: ApiFetchOptions) => Promise<ApiResult<T>>;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function isEnvelope(body: unknown): body is { success: boolean; data?: unknown; error?: { message?: string; code?: string }; meta?: ApiResult<unknown>['meta'] } {
+  return typeof body === 'object' && body !== null && typeof (body as { success?: unknown }).success === 'boolean';
+}
+
+// JSON以外（プロキシのHTMLエラーページや204の空レスポンス）も結果に変換する
+export async function parseResponse<T>(response: Response): Promise<ApiResult<T>> {
+  const text = await response.text().catch(() => '');
+  let body: unknown;
+  let parsed = false;
+  if (text) {
+    try {
+      body = JSON.parse(text);
+      parsed = true;
+    } catch {
+      // 下でステータスに応じて扱う
+    }
+  }
+  const envelope = isEnvelope(body) ? body : null;
+
+  if (!response.ok) return { success: false, error: errorFromResponse(response.status, envelope?.error) };
+  if (text && !parsed) {
+    return { success: false, error: new ServerError('サーバーの応答を読み取れませんでした', { status: response.status }) };
+  }
+  if (!envelope) return { success: true, data: body as T };
+  if (!envelope.success) return { success: false, error: errorFromResponse(response.status, envelope.error), meta: envelope.meta };
+  return { success: true, data: envelope.data as T, meta: envelope.meta };
+}
+
+// 全APIで共通のfetchラッパー（トークンとプロジェクトIDを付与）
+export function createApiFetch(projectId: string, session: Session, httpOptions: HttpOptions = DEFAULT_HTTP_OPTIONS): ApiFetch {
+  // タイムアウト付きで1回送信する。呼び出し側のsignalによる中断はそのまま投げる
+  const send = async (url: string, init: RequestInit, token: string | null, timeout: number) => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Project-Id': projectId,
+      ...(init.headers as Record<string, string>),
+    };
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    init.signal?.addEventListener('abort', abort);
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+
+    try {
+      return await fetch(url, { ...init, headers, signal: controller.signal });
+    } catch (err) {
+      if (timedOut) throw new TimeoutError();
+      if (init.signal?.aborted) throw err;
+      throw new NetworkError();
+    } finally {
+      clearTimeout(timer);
+      init.signal?.removeEventListener('abort', abort);
+    }
+  };
+
+  const attempt = async <T>(url: string, init: RequestInit, auth: boolean, timeout: number): Promise<ApiResult<T>> => {
+    const token = auth ? await session.getValidToken() : null;
+    let response = await send(url, init, token, timeout);
+
+    // 401は一度だけトークンを更新して再試行し、それでもだめならセッション切れ
+    if (response.status === 401 && token) {
+      if (await session.refresh()) response = await send(url, init, session.getToken(), timeout);
+      if (response.status === 401) session.expire();
+    }
+    return parseResponse<T>(response);
+  };
+
+  return async function apiFetch<T>(url: string, options: ApiFetchOptions = {}): Promise<ApiResult<T>> {
+    const { auth = true, timeout = httpOptions.timeout, retries = httpOptions.retries, ...init } = options;
+    const maxRetries = IDEMPOTENT_METHODS.includes((init.method || 'GET').toUpperCase()) ? retries : 0;
+
+    for (let count = 0; ; count++) {
+      let result: ApiResult<T>;
+      try {
+        result = await attempt<T>(url, init, auth, timeout);
+      } catch (err) {
+        if (!(err instanceof ApiError)) throw err;
+        result = { success: false, error: err };
+      }
+      if (result.success || count >= maxRetries || !isRetryable(result.error)) return result;
+      await sleep(httpOptions.retryDelay * 2 ** count);
+    }
+  };
+}
@@ -0,0 +1,35 @@
+// ==========================================
+// 画像の縮小・圧縮（アップロード前にブラウザで行う）
+// ==========================================
+export interface ResizeOptions {
+  // 長辺の最大ピクセル数
+  maxSize: number;
+  type?: string;
+  quality?: number;
+}
+
+export interface ResizedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export async function resizeImage(file: Blob, options: ResizeOptions): Promise<ResizedImage> {
+  const { maxSize, type = 'image/jpeg', quality = 0.8 } = options;
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('画像を処理できませんでした');
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+  if (!blob) throw new Error('画像を処理できませんでした');
+  return { blob, width, height };
+}
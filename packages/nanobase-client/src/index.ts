@@ -0,0 +1,21 @@
+export { createClient, DEFAULT_URLS } from './client';
+export type { NanobaseClient } from './client';
+export { s, defineCollection, memberSchema } from './schema';
+export { ApiError, AuthError, NetworkError, ServerError, TimeoutError, ValidationError } from './errors';
+export type { Collection, CollectionOptions, CollectionRecord, Infer, Member, ParseResult, Schema } from './schema';
+export type { AuthClient } from './auth';
+export type { ApiFetch, ApiFetchOptions } from './http';
+export type { CollectionRef, DataClient, RecordChanges } from './data';
+export type { ListQuery, OrderBy, Where, WhereOperators } from './query';
+export type { ChangeEvent, SubscribeOptions, Unsubscribe } from './realtime';
+export { createLocalId, isLocalId } from './offline';
+export { runOptimistic } from './optimistic';
+export type { OptimisticChange } from './optimistic';
+export type { OfflineDataClient, OfflineOptions, SyncController, SyncState, SyncStatus } from './offline';
+export { resizeImage } from './image';
+export type { ResizedImage, ResizeOptions } from './image';
+export { downloadFile } from './download';
+export type { FilesClient, StoredFile, UploadOptions } from './files';
+export type { NotifyClient, RescheduleOptions, ScheduleOptions } from './notify';
+export type { MonitorClient } from './monitor';
+export type { ApiResult, AuthSession, ClientConfig, DataRecord, InvalidRecordHandler, ServiceUrls, User } from './types';
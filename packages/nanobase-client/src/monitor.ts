@@ -0,0 +1,22 @@
+import type { ApiFetch } from './http';
+
+// Monitor API（送信失敗は握りつぶしてアプリを止めない）
+export function createMonitor(apiFetch: ApiFetch, baseUrl: string) {
+  return {
+    logEvent(name: string, properties?: Record<string, unknown>) {
+      apiFetch(`${baseUrl}/api/v1/log/event`, {
+        method: 'POST',
+        body: JSON.stringify({ name, properties }),
+      }).catch(console.error);
+    },
+    logError(err: Error | string, context?: Record<string, unknown>) {
+      const message = err instanceof Error ? err.message : err;
+      apiFetch(`${baseUrl}/api/v1/log/error`, {
+        method: 'POST',
+        body: JSON.stringify({ message, context }),
+      }).catch(console.error);
+    },
+  };
+}
+
+export type MonitorClient = ReturnType<typeof createMonitor>;
@@ -0,0 +1,54 @@
+import type { ApiFetch } from './http';
+
+export interface ScheduleOptions {
+  userId: string;
+  type: string;
+  subject: string;
+  message: string;
+  scheduledAt: string;
+}
+
+// 送信前の通知の時刻・内容を変更する（省略した項目はそのまま）
+export type RescheduleOptions = Pick<ScheduleOptions, 'scheduledAt'> & Partial<Pick<ScheduleOptions, 'subject' | 'message'>>;
+
+// Notico API (通知)
+export function createNotify(apiFetch: ApiFetch, baseUrl: string) {
+  return {
+    async schedule(options: ScheduleOptions) {
+      return apiFetch<{ id: string }>(`${baseUrl}/api/v1/notifications/schedule`, {
+        method: 'POST',
+        body: JSON.stringify(options),
+      });
+    },
+    async reschedule(id: string, options: RescheduleOptions) {
+      return apiFetch<{ id: string }>(`${baseUrl}/api/v1/notifications/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        body: JSON.stringify(options),
+      });
+    },
+    // 送信前の通知を取り消す
+    async cancel(id: string) {
+      return apiFetch(`${baseUrl}/api/v1/notifications/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+      });
+    },
+    // Webプッシュの購読に使うVAPIDの公開鍵（base64url）
+    async getPushPublicKey() {
+      return apiFetch<{ publicKey: string }>(`${baseUrl}/api/v1/push/public-key`);
+    },
+    // この端末の購読を登録する。type: 'push' の通知は、ユーザーが登録したすべての購読に届く
+    async registerPush(subscription: PushSubscriptionJSON) {
+      return apiFetch<{ id: string }>(`${baseUrl}/api/v1/push/subscriptions`, {
+        method: 'POST',
+        body: JSON.stringify(subscription),
+      });
+    },
+    async unregisterPush(endpoint: string) {
+      return apiFetch(`${baseUrl}/api/v1/push/subscriptions?endpoint=${encodeURIComponent(endpoint)}`, {
+        method: 'DELETE',
+      });
+    },
+  };
+}
+
+export type NotifyClient = ReturnType<typeof createNotify>;
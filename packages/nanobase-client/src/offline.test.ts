@@ -0,0 +1,190 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { DataClient } from './data';
+import { NetworkError } from './errors';
+import { isLocalId, withOffline } from './offline';
+import type { Session } from './session';
+import type { ApiResult, DataRecord } from './types';
+
+interface Todo {
+  title: string;
+  done?: boolean;
+}
+
+// メモリ上のPocketData。online を false にすると、どの操作も NetworkError を返す
+function createFakeServer() {
+  const records = new Map<string, DataRecord<Todo>>();
+  let nextId = 1;
+  const offline = <T>(): ApiResult<T> => ({ success: false, error: new NetworkError() });
+  const server = {
+    online: true,
+    records,
+    // 他の端末からの更新
+    touch(id: string, changes: Partial<Todo>) {
+      const record = records.get(id)!;
+      records.set(id, { ...record, data: { ...record.data, ...changes }, version: (record.version ?? 0) + 1 });
+    },
+    data: {
+      list: vi.fn(async (): Promise<ApiResult<DataRecord<Todo>[]>> => (server.online ? { success: true, data: [...records.values()] } : offline())),
+      get: vi.fn(async (_collection: string, id: string): Promise<ApiResult<DataRecord<Todo>>> => {
+        if (!server.online) return offline();
+        const record = records.get(id);
+        return record ? { success: true, data: record } : { success: false };
+      }),
+      create: vi.fn(async (_collection: string, data: Todo): Promise<ApiResult<DataRecord<Todo>>> => {
+        if (!server.online) return offline();
+        const record = { id: `r${nextId++}`, data, version: 1 };
+        records.set(record.id, record);
+        return { success: true, data: record };
+      }),
+      update: vi.fn(async (_collection: string, id: string, changes: Partial<Todo>): Promise<ApiResult<DataRecord<Todo>>> => {
+        if (!server.online) return offline();
+        server.touch(id, changes);
+        return { success: true, data: records.get(id) };
+      }),
+      delete: vi.fn(async (_collection: string, id: string): Promise<ApiResult<unknown>> => {
+        if (!server.online) return offline();
+        records.delete(id);
+        return { success: true };
+      }),
+    },
+  };
+  return server;
+}
+
+const setup = (options?: Parameters<typeof withOffline>[3]) => {
+  const server = createFakeServer();
+  let userId = 'alice';
+  const session = { getUserId: () => userId } as unknown as Session;
+  const data = withOffline(server.data as unknown as DataClient, 'test', session, options);
+  return { server, data, switchUser: (id: string) => (userId = id) };
+};
+
+describe('withOffline', () => {
+  it('オフライン中の作成はキューに積み、仮IDで一覧に重ねて返す', async () => {
+    const { server, data } = setup();
+    server.online = false;
+
+    const created = await data.create<Todo>('todos', { title: '牛乳を買う' });
+    expect(created.success).toBe(true);
+    expect(created.meta?.queued).toBe(true);
+    expect(isLocalId(created.data!.id)).toBe(true);
+    expect(data.sync.getState()).toMatchObject({ status: 'offline', pending: 1 });
+
+    server.online = true;
+    const listed = await data.list<Todo>('todos');
+    expect(listed.data?.map(r => r.data.title)).toEqual(['牛乳を買う']);
+    expect(server.records.size).toBe(0);
+  });
+
+  it('再接続したらキューを送り、仮IDをサーバーのIDに読み替える', async () => {
+    const { server, data } = setup();
+    server.online = false;
+    const created = await data.create<Todo>('todos', { title: '牛乳を買う' });
+    const localId = created.data!.id;
+    // 送信前の変更は作成にまとめる
+    await data.update<Todo>('todos', localId, { done: true });
+    expect(data.sync.getState().pending).toBe(1);
+
+    const replayed = vi.fn();
+    const synced = vi.fn();
+    data.sync.onReplayed(replayed);
+    data.sync.onSynced(synced);
+    server.online = true;
+    await data.sync.flush();
+
+    expect(server.data.create).toHaveBeenLastCalledWith('todos', { title: '牛乳を買う', done: true });
+    expect(replayed).toHaveBeenCalledWith(localId, expect.objectContaining({ id: 'r1' }));
+    expect(synced).toHaveBeenCalledTimes(1);
+    expect(data.sync.getState()).toMatchObject({ status: 'online', pending: 0 });
+
+    // 画面に残っている仮IDでの変更も、サーバーのIDで送る
+    await data.update<Todo>('todos', localId, { title: '豆乳を買う' });
+    expect(server.data.update).toHaveBeenLastCalledWith('todos', 'r1', { title: '豆乳を買う' });
+  });
+
+  it('送信前に削除した仮IDのレコードは送らない', async () => {
+    const { server, data } = setup();
+    server.online = false;
+    const created = await data.create<Todo>('todos', { title: '牛乳を買う' });
+    await data.delete('todos', created.data!.id);
+    expect(data.sync.getState().pending).toBe(0);
+
+    server.online = true;
+    await data.sync.flush();
+    expect(server.data.create).toHaveBeenCalledTimes(1);
+    expect(server.records.size).toBe(0);
+  });
+
+  it('オフライン中はキャッシュした一覧を返す', async () => {
+    const { server, data } = setup();
+    await data.create<Todo>('todos', { title: '牛乳を買う' });
+    await data.list<Todo>('todos', { where: { done: false } });
+
+    server.online = false;
+    const cached = await data.list<Todo>('todos', { where: { done: false } });
+    expect(cached.meta?.fromCache).toBe(true);
+    expect(cached.data?.map(r => r.id)).toEqual(['r1']);
+  });
+
+  it('キャッシュはユーザーごとに分け、別のユーザーには見せない', async () => {
+    const { server, data, switchUser } = setup();
+    await data.create<Todo>('todos', { title: '牛乳を買う' });
+    await data.list<Todo>('todos');
+
+    server.online = false;
+    switchUser('bob');
+    expect((await data.list<Todo>('todos')).success).toBe(false);
+  });
+
+  it('ユーザーが切り替わったら前のユーザーのキューは送らない', async () => {
+    const { server, data, switchUser } = setup();
+    server.online = false;
+    await data.create<Todo>('todos', { title: '牛乳を買う' });
+
+    switchUser('bob');
+    server.online = true;
+    await data.sync.flush();
+    expect(server.data.create).toHaveBeenCalledTimes(1);
+    expect(data.sync.getState().pending).toBe(0);
+  });
+
+  describe('競合', () => {
+    const conflict = async (options?: Parameters<typeof withOffline>[3]) => {
+      const { server, data } = setup(options);
+      await data.create<Todo>('todos', { title: '牛乳を買う' });
+      await data.list<Todo>('todos');
+
+      server.online = false;
+      await data.update<Todo>('todos', 'r1', { done: true });
+      server.online = true;
+      server.touch('r1', { title: '豆乳を買う' });
+      await data.sync.flush();
+      return { server, data };
+    };
+
+    it('server-wins では他の端末の更新を残し、オフライン中の変更を取り消したことを知らせる', async () => {
+      const { server, data } = await conflict();
+      expect(server.records.get('r1')?.data).toEqual({ title: '豆乳を買う' });
+      expect(data.sync.getState()).toMatchObject({ pending: 0, lastError: '他の端末で更新されていたため、オフライン中の変更を取り消しました' });
+    });
+
+    it('client-wins ではオフライン中の変更で上書きする', async () => {
+      const { server, data } = await conflict({ conflictStrategy: 'client-wins' });
+      expect(server.records.get('r1')?.data).toEqual({ title: '豆乳を買う', done: true });
+      expect(data.sync.getState().lastError).toBeUndefined();
+    });
+
+    it('バージョンが変わっていなければそのまま送る', async () => {
+      const { server, data } = setup();
+      await data.create<Todo>('todos', { title: '牛乳を買う' });
+      await data.list<Todo>('todos');
+
+      server.online = false;
+      await data.delete('todos', 'r1');
+      server.online = true;
+      await data.sync.flush();
+      expect(server.records.size).toBe(0);
+      expect(data.sync.getState().lastError).toBeUndefined();
+    });
+  });
+});
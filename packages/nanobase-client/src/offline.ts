@@ -0,0 +1,362 @@
+import { collectionName, type CollectionRef, type DataClient, type RecordChanges } from './data';
+import { ApiError, NetworkError, TimeoutError } from './errors';
+import type { ListQuery, Where } from './query';
+import type { Session } from './session';
+import { createMemoryStore, openKeyValueStore, type KeyValueStore } from './storage';
+import type { ApiResult, DataRecord } from './types';
+
+// ==========================================
+// オフライン対応（一覧のキャッシュと変更のキュー）
+// ==========================================
+export type SyncStatus = 'online' | 'offline' | 'syncing';
+
+export interface SyncState {
+  status: SyncStatus;
+  // まだサーバーに送れていない変更の数
+  pending: number;
+  lastError?: string;
+}
+
+export interface OfflineOptions {
+  // 再送時にサーバー側のバージョンが進んでいた場合、どちらの変更を残すか
+  conflictStrategy?: 'server-wins' | 'client-wins';
+}
+
+type Mutation =
+  | { type: 'create'; collection: string; tempId: string; record: Record<string, unknown> }
+  | { type: 'update'; collection: string; id: string; changes: Record<string, unknown>; baseVersion?: number }
+  | { type: 'delete'; collection: string; id: string; baseVersion?: number };
+
+const QUEUE_KEY = 'queue';
+const LOCAL_ID_PREFIX = 'local-';
+const CONFLICT_MESSAGE = '他の端末で更新されていたため、オフライン中の変更を取り消しました';
+const MISSING_LOCAL_RECORD_MESSAGE = '送信待ちのレコードが見つかりません';
+
+// オフライン中や送信中に作成して、まだサーバーIDがないレコード
+export const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+
+const isOfflineError = (error: unknown): boolean => error instanceof NetworkError || error instanceof TimeoutError;
+
+export const createLocalId = () => `${LOCAL_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const cacheKey = <T>(collection: string, { cache: _cache, ...query }: ListQuery<T> = {}) => `list:${collection}:${JSON.stringify(query)}`;
+
+// 等価条件だけを見る（演算子付きの条件は一致とみなす）
+function matchesWhere(record: Record<string, unknown>, where?: Where<Record<string, unknown>>) {
+  if (!where) return true;
+  return Object.entries(where).every(([key, condition]) =>
+    typeof condition === 'object' && condition !== null ? true : record[key] === condition
+  );
+}
+
+function createSyncController() {
+  const stateListeners = new Set<(state: SyncState) => void>();
+  const replayListeners = new Set<(localId: string, record: DataRecord) => void>();
+  const syncedListeners = new Set<() => void>();
+  let state: SyncState = { status: 'online', pending: 0 };
+
+  return {
+    setState(patch: Partial<SyncState>) {
+      state = { ...state, ...patch };
+      stateListeners.forEach(listener => listener(state));
+    },
+    emitReplayed(localId: string, record: DataRecord) {
+      replayListeners.forEach(listener => listener(localId, record));
+    },
+    emitSynced() {
+      syncedListeners.forEach(listener => listener());
+    },
+    public: {
+      getState: () => state,
+      subscribe(listener: (state: SyncState) => void) {
+        stateListeners.add(listener);
+        return () => {
+          stateListeners.delete(listener);
+        };
+      },
+      // キューの作成が送信され、ローカルIDがサーバーのIDに置き換わったとき
+      onReplayed(listener: (localId: string, record: DataRecord) => void) {
+        replayListeners.add(listener);
+        return () => {
+          replayListeners.delete(listener);
+        };
+      },
+      // キューをすべて送り終えたとき（一覧を取り直す合図）
+      onSynced(listener: () => void) {
+        syncedListeners.add(listener);
+        return () => {
+          syncedListeners.delete(listener);
+        };
+      },
+    },
+  };
+}
+
+export type SyncController = ReturnType<typeof createSyncController>['public'] & { flush: () => Promise<void> };
+
+interface UserScope {
+  userId: string | null;
+  store: KeyValueStore;
+  ready: Promise<void>;
+}
+
+export function withOffline(data: DataClient, projectId: string, session: Session, options: OfflineOptions = {}) {
+  const { conflictStrategy = 'server-wins' } = options;
+  const controller = createSyncController();
+  const versions = new Map<string, number>();
+  // 送信できた仮IDと、サーバーが付けたIDの対応
+  const replayedIds = new Map<string, string>();
+  let queue: Mutation[] = [];
+  let flushing: Promise<void> | null = null;
+  let scope: UserScope | null = null;
+
+  // キューとキャッシュはユーザーごとに分け、別のユーザーのトークンで送ったり、キャッシュを見せたりしない
+  const currentScope = (): UserScope => {
+    const userId = session.getUserId();
+    if (scope && scope.userId === userId) return scope;
+    queue = [];
+    versions.clear();
+    replayedIds.clear();
+    controller.setState({ pending: 0, lastError: undefined });
+    // ユーザーを特定できないときは端末に残さない
+    const store = userId ? openKeyValueStore(`nanobase-offline-${projectId}-${userId}`) : createMemoryStore();
+    const next: UserScope = {
+      userId,
+      store,
+      ready: store.get<Mutation[]>(QUEUE_KEY).then(saved => {
+        if (scope !== next) return;
+        queue = saved || [];
+        controller.setState({ pending: queue.length });
+        // 前回送れなかった変更があれば送る
+        if (queue.length > 0) setTimeout(flush);
+      }),
+    };
+    scope = next;
+    return next;
+  };
+
+  // 現在のユーザーのキューを読み込み終えてから、そのユーザーのストアを返す
+  const ready = async () => {
+    const current = currentScope();
+    await current.ready;
+    return current;
+  };
+
+  const saveQueue = async (current: UserScope) => {
+    if (current !== scope) return;
+    await current.store.set(QUEUE_KEY, queue);
+    controller.setState({ pending: queue.length });
+  };
+
+  // 競合判定のために、最後に見たバージョンを覚えておく
+  const rememberVersions = (collection: string, records: DataRecord<unknown>[]) => {
+    records.forEach(record => {
+      if (record.version !== undefined) versions.set(`${collection}/${record.id}`, record.version);
+    });
+  };
+
+  // キャッシュやサーバーの一覧に、未送信の変更を重ねて返す（作成分は末尾に並ぶ）
+  const applyPending = <T>(collection: string, records: DataRecord<T>[], where?: Where<T>): DataRecord<T>[] => {
+    let result = records;
+    for (const mutation of queue) {
+      if (mutation.collection !== collection) continue;
+      if (mutation.type === 'create') {
+        if (matchesWhere(mutation.record, where as Where<Record<string, unknown>>)) {
+          result = [...result, { id: mutation.tempId, data: mutation.record as T }];
+        }
+      } else if (mutation.type === 'update') {
+        result = result.map(r => (r.id === mutation.id ? { ...r, data: { ...r.data, ...mutation.changes } } : r));
+      } else {
+        result = result.filter(r => r.id !== mutation.id);
+      }
+    }
+    return result;
+  };
+
+  // キューに積む。仮IDのレコードへの変更は作成のキューにまとめ、その作成が見つからなければ false
+  const enqueue = async (mutation: Mutation) => {
+    const current = await ready();
+    if (mutation.type !== 'create' && isLocalId(mutation.id)) {
+      const create = queue.find(m => m.type === 'create' && m.tempId === mutation.id);
+      if (create?.type !== 'create') return false;
+      if (mutation.type === 'update') create.record = { ...create.record, ...mutation.changes };
+      else queue = queue.filter(m => m !== create);
+    } else {
+      queue.push(mutation);
+    }
+    await saveQueue(current);
+    return true;
+  };
+
+  const queueOffline = (mutation: Mutation) => {
+    controller.setState({ status: 'offline' });
+    return enqueue(mutation);
+  };
+
+  // 送信済みの仮IDは、サーバーのIDに読み替える
+  const resolveId = (id: string) => replayedIds.get(id) ?? id;
+
+  type ReplayOutcome = 'done' | 'offline';
+
+  const replayOne = async (mutation: Mutation): Promise<ReplayOutcome> => {
+    if (mutation.type === 'create') {
+      const sent = mutation.record;
+      const result = await data.create(mutation.collection, sent);
+      if (!result.success) {
+        if (isOfflineError(result.error)) return 'offline';
+        controller.setState({ lastError: result.error?.message });
+      } else if (result.data) {
+        const { id } = result.data;
+        replayedIds.set(mutation.tempId, id);
+        controller.emitReplayed(mutation.tempId, result.data);
+        // 送信中に削除・変更されていたら、サーバーのIDで続けて送る
+        const index = queue.indexOf(mutation);
+        if (index === -1) queue.unshift({ type: 'delete', collection: mutation.collection, id });
+        else if (mutation.record !== sent) queue.splice(index + 1, 0, { type: 'update', collection: mutation.collection, id, changes: mutation.record });
+      }
+      return 'done';
+    }
+
+    if (mutation.baseVersion !== undefined && conflictStrategy === 'server-wins') {
+      const current = await data.get(mutation.collection, mutation.id);
+      if (!current.success) {
+        // 削除済みなどで取得できなければ変更は適用しようがない
+        if (isOfflineError(current.error)) return 'offline';
+        return 'done';
+      }
+      const serverVersion = current.data?.version;
+      if (serverVersion !== undefined && serverVersion !== mutation.baseVersion) {
+        controller.setState({ lastError: CONFLICT_MESSAGE });
+        return 'done';
+      }
+    }
+
+    const result = mutation.type === 'update'
+      ? await data.update(mutation.collection, mutation.id, mutation.changes)
+      : await data.delete(mutation.collection, mutation.id);
+    if (!result.success) {
+      if (isOfflineError(result.error)) return 'offline';
+      controller.setState({ lastError: result.error?.message });
+    }
+    return 'done';
+  };
+
+  const replay = async () => {
+    const current = await ready();
+    if (queue.length === 0) return;
+    controller.setState({ status: 'syncing', lastError: undefined });
+    while (queue.length > 0) {
+      // 途中でログアウトやユーザーの切り替えがあったら、前のユーザーの変更は送らない
+      if (currentScope() !== current) return;
+      const mutation = queue[0];
+      if ((await replayOne(mutation)) === 'offline') {
+        controller.setState({ status: 'offline' });
+        return;
+      }
+      // 送信中に積まれた変更があるので、先頭を切り落とさず送ったものだけを取り除く
+      queue = queue.filter(m => m !== mutation);
+      await saveQueue(current);
+    }
+    controller.setState({ status: 'online' });
+    controller.emitSynced();
+  };
+
+  const flush = () => {
+    if (!flushing) {
+      flushing = replay().finally(() => {
+        flushing = null;
+      });
+    }
+    return flushing;
+  };
+
+  // サーバーに届いたら、たまっている変更を送る
+  const markOnline = () => {
+    if (controller.public.getState().status === 'offline') {
+      controller.setState({ status: 'online' });
+      flush();
+    }
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => flush());
+    if (navigator.onLine === false) controller.setState({ status: 'offline' });
+  }
+  currentScope();
+
+  return {
+    ...data,
+
+    async list<T = Record<string, unknown>>(collection: CollectionRef<T>, query?: ListQuery<T>): Promise<ApiResult<DataRecord<T>[]>> {
+      const name = collectionName(collection);
+      const key = cacheKey(name, query);
+      const cacheable = query?.cache !== false;
+      const result = await data.list(collection, query);
+      const { store } = await ready();
+      if (result.success && result.data) {
+        rememberVersions(name, result.data);
+        if (cacheable) await store.set(key, result.data);
+        markOnline();
+        return { ...result, data: applyPending(name, result.data, query?.where) };
+      }
+      if (!isOfflineError(result.error)) return result;
+
+      controller.setState({ status: 'offline' });
+      if (!cacheable) return result;
+      const cached = await store.get<DataRecord<T>[]>(key);
+      if (!cached) return result;
+      rememberVersions(name, cached);
+      return { success: true, data: applyPending(name, cached, query?.where), meta: { fromCache: true } };
+    },
+
+    async create<T = Record<string, unknown>>(collection: CollectionRef<T>, record: T): Promise<ApiResult<DataRecord<T>>> {
+      const result = await data.create(collection, record);
+      if (result.success) markOnline();
+      if (result.success || !isOfflineError(result.error)) return result;
+
+      const tempId = createLocalId();
+      await queueOffline({ type: 'create', collection: collectionName(collection), tempId, record: record as Record<string, unknown> });
+      return { success: true, data: { id: tempId, data: record }, meta: { queued: true } };
+    },
+
+    async update<T = Record<string, unknown>>(collection: CollectionRef<T>, localOrServerId: string, changes: RecordChanges<T>): Promise<ApiResult<DataRecord<T>>> {
+      const name = collectionName(collection);
+      const id = resolveId(localOrServerId);
+      const mutation: Mutation = { type: 'update', collection: name, id, changes, baseVersion: versions.get(`${name}/${id}`) };
+      if (isLocalId(id)) {
+        if (!(await enqueue(mutation))) return { success: false, error: new ApiError(MISSING_LOCAL_RECORD_MESSAGE, { status: 404 }) };
+        return { success: true, meta: { queued: true } };
+      }
+      const result = await data.update(collection, id, changes);
+      if (result.success) markOnline();
+      if (result.success || !isOfflineError(result.error)) return result;
+      await queueOffline(mutation);
+      return { success: true, meta: { queued: true } };
+    },
+
+    async delete<T>(collection: CollectionRef<T>, localOrServerId: string): Promise<ApiResult<unknown>> {
+      const name = collectionName(collection);
+      const id = resolveId(localOrServerId);
+      const mutation: Mutation = { type: 'delete', collection: name, id, baseVersion: versions.get(`${name}/${id}`) };
+      if (isLocalId(id)) {
+        if (!(await enqueue(mutation))) return { success: false, error: new ApiError(MISSING_LOCAL_RECORD_MESSAGE, { status: 404 }) };
+        return { success: true, meta: { queued: true } };
+      }
+      const result = await data.delete(collection, id);
+      if (result.success) markOnline();
+      if (result.success || !isOfflineError(result.error)) return result;
+      await queueOffline(mutation);
+      return { success: true, meta: { queued: true } };
+    },
+
+    sync: { ...controller.public, flush } as SyncController,
+  };
+}
+
+export type OfflineDataClient = ReturnType<typeof withOffline>;
+
+// オフライン対応を使わない場合も、同じ形の sync を持たせる
+export function withoutOffline(data: DataClient): OfflineDataClient {
+  const controller = createSyncController();
+  return { ...data, sync: { ...controller.public, flush: async () => {} } };
+}
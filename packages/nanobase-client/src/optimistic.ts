@@ -0,0 +1,26 @@
+import type { ApiResult } from './types';
+
+export interface OptimisticChange<T> {
+  // 画面の状態を先に変更する
+  apply: () => void;
+  request: () => Promise<ApiResult<T>>;
+  // 失敗したら apply を打ち消す
+  rollback: () => void;
+  // 成功したらサーバーの結果で置き換える（仮IDを本物のIDにするなど）
+  reconcile?: (data: T | undefined) => void;
+}
+
+// 楽観的更新: 先に画面へ反映し、サーバーの結果に合わせて確定または巻き戻す
+export async function runOptimistic<T>(change: OptimisticChange<T>): Promise<ApiResult<T>> {
+  change.apply();
+  let result: ApiResult<T>;
+  try {
+    result = await change.request();
+  } catch (err) {
+    change.rollback();
+    throw err;
+  }
+  if (result.success) change.reconcile?.(result.data);
+  else change.rollback();
+  return result;
+}
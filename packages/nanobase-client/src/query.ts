@@ -0,0 +1,53 @@
+// ==========================================
+// PocketData のクエリパラメータ
+// ==========================================
+export interface WhereOperators<V> {
+  eq?: V;
+  ne?: V;
+  gt?: V;
+  gte?: V;
+  lt?: V;
+  lte?: V;
+  in?: V[];
+  // 配列フィールドが指定した要素を含む
+  contains?: V extends readonly (infer U)[] ? U : never;
+}
+
+// 値をそのまま渡すと等価比較になる
+export type Where<T> = { [K in keyof T]?: T[K] | WhereOperators<NonNullable<T[K]>> };
+
+export interface OrderBy<T> {
+  field: keyof T & string;
+  direction?: 'asc' | 'desc';
+}
+
+export interface ListQuery<T> {
+  where?: Where<T>;
+  orderBy?: OrderBy<T>;
+  limit?: number;
+  // 前のレスポンスの meta.nextCursor を渡すと続きのページを取得する
+  cursor?: string;
+  // この時刻より後に作成・更新・削除されたレコードだけを返す（削除は deleted: true で届く）
+  updatedAfter?: string;
+  // オフライン対応のときに結果を端末にキャッシュするか（デフォルトは true）
+  // 現在時刻から条件を作るなど、呼ぶたびに変わるクエリでは false にする
+  cache?: boolean;
+}
+
+export function toSearchParams<T>(query: ListQuery<T> = {}): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.where && Object.keys(query.where).length > 0) params.set('where', JSON.stringify(query.where));
+  if (query.orderBy) {
+    params.set('orderBy', query.orderBy.field);
+    params.set('order', query.orderBy.direction || 'asc');
+  }
+  if (query.limit !== undefined) params.set('limit', String(query.limit));
+  if (query.cursor) params.set('cursor', query.cursor);
+  if (query.updatedAfter) params.set('updatedAfter', query.updatedAfter);
+  return params;
+}
+
+export function withQuery(url: string, params: URLSearchParams): string {
+  const search = params.toString();
+  return search ? `${url}?${search}` : url;
+}
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { openChangeStream, pollChanges, type ChangesPage, type RawChangeEvent, type StreamConnection } from './realtime';
+
+// テストから onopen / onmessage / onerror を呼べる EventSource の代わり
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((message: { data: string; lastEventId: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  closed = false;
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+const latest = () => FakeEventSource.instances[FakeEventSource.instances.length - 1];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  FakeEventSource.instances = [];
+  vi.stubGlobal('EventSource', FakeEventSource);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('openChangeStream', () => {
+  const setup = (connection: (since?: string) => StreamConnection | null, since?: string) => {
+    const connect = vi.fn(async (since?: string) => connection(since));
+    const emit = vi.fn<(event: RawChangeEvent) => void>();
+    const onUnavailable = vi.fn<(since?: string) => void>();
+    const unsubscribe = openChangeStream(connect, emit, onUnavailable, since);
+    return { connect, emit, onUnavailable, unsubscribe };
+  };
+
+  it('届いたイベントを渡し、張り直すときは最後のイベントIDから再送してもらう', async () => {
+    const { connect, emit, onUnavailable } = setup(since => ({ url: `/stream?since=${since ?? ''}`, expiresAt: null }), 't0');
+    await vi.advanceTimersByTimeAsync(0);
+    latest().onopen?.();
+    latest().onmessage?.({ data: JSON.stringify({ type: 'delete', id: 'a' }), lastEventId: 't1' });
+    expect(emit).toHaveBeenCalledWith({ type: 'delete', id: 'a' });
+
+    const first = latest();
+    first.onerror?.();
+    expect(first.closed).toBe(true);
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(connect).toHaveBeenLastCalledWith('t1');
+    expect(latest()).not.toBe(first);
+    expect(latest().url).toBe('/stream?since=t1');
+    expect(onUnavailable).not.toHaveBeenCalled();
+  });
+
+  it('一度も開けずに切れたら、最後の時刻を渡してポーリングに任せる', async () => {
+    const { connect, onUnavailable } = setup(() => ({ url: '/stream', expiresAt: null }), 't0');
+    await vi.advanceTimersByTimeAsync(0);
+    latest().onerror?.();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(onUnavailable).toHaveBeenCalledWith('t0');
+    expect(connect).toHaveBeenCalledTimes(1);
+  });
+
+  it('接続先を作れなければ（SSE非対応・認証切れ）すぐにポーリングに任せる', async () => {
+    const { onUnavailable } = setup(() => null, 't0');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onUnavailable).toHaveBeenCalledWith('t0');
+    expect(FakeEventSource.instances).toHaveLength(0);
+  });
+
+  it('トークンの期限の1分前に新しいトークンで張り直す', async () => {
+    let token = 0;
+    const { connect } = setup(() => ({ url: `/stream?token=${++token}`, expiresAt: Date.now() + 5 * 60 * 1000 }));
+    await vi.advanceTimersByTimeAsync(0);
+    const first = latest();
+    first.onopen?.();
+
+    await vi.advanceTimersByTimeAsync(4 * 60 * 1000 - 1);
+    expect(connect).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(first.closed).toBe(true);
+    expect(connect).toHaveBeenCalledTimes(2);
+    expect(latest().url).toBe('/stream?token=2');
+  });
+
+  it('トークンを更新できず期限が近いままなら、開くたびに張り直さない', async () => {
+    const { connect } = setup(() => ({ url: '/stream', expiresAt: Date.now() + 30 * 1000 }));
+    await vi.advanceTimersByTimeAsync(0);
+    latest().onopen?.();
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(connect).toHaveBeenCalledTimes(1);
+    expect(latest().closed).toBe(false);
+  });
+
+  it('購読をやめたら閉じて、張り直しの予定も取り消す', async () => {
+    const { connect, unsubscribe } = setup(() => ({ url: '/stream', expiresAt: null }));
+    await vi.advanceTimersByTimeAsync(0);
+    latest().onopen?.();
+    latest().onerror?.();
+    unsubscribe();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(connect).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('pollChanges', () => {
+  it('起点がなければサーバーの時刻だけを取得し、それ以降の変更を届ける', async () => {
+    const fetchSince = vi.fn(async (since?: string): Promise<ChangesPage> => {
+      if (since === undefined) return { records: [], serverTime: 't1' };
+      return {
+        records: [
+          { id: 'a', data: {}, createdAt: 't2', updatedAt: 't2' },
+          { id: 'b', data: {}, createdAt: 't0', updatedAt: 't2' },
+          { id: 'c', data: {}, deleted: true },
+        ],
+        serverTime: 't3',
+      };
+    });
+    const emit = vi.fn<(event: RawChangeEvent) => void>();
+    const unsubscribe = pollChanges(fetchSince, emit, 1000);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchSince).toHaveBeenCalledWith(undefined);
+    expect(emit).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchSince).toHaveBeenLastCalledWith('t1');
+    expect(emit.mock.calls.map(([event]) => event.type)).toEqual(['insert', 'update', 'delete']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchSince).toHaveBeenLastCalledWith('t3');
+    unsubscribe();
+  });
+
+  it('サーバーの時刻が返らなければ、受け取ったレコードの更新時刻まで進める', async () => {
+    const fetchSince = vi.fn(async (): Promise<ChangesPage> => ({
+      records: [
+        { id: 'a', data: {}, createdAt: 't0', updatedAt: 't4' },
+        { id: 'b', data: {}, createdAt: 't0', updatedAt: 't2' },
+      ],
+    }));
+    const unsubscribe = pollChanges(fetchSince, vi.fn(), 1000, 't1');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchSince).toHaveBeenLastCalledWith('t4');
+    unsubscribe();
+  });
+
+  it('取得に失敗しても同じ起点で取り直す', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const fetchSince = vi.fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue({ records: [], serverTime: 't2' });
+    const unsubscribe = pollChanges(fetchSince, vi.fn(), 1000, 't1');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchSince.mock.calls).toEqual([['t1'], ['t1']]);
+    unsubscribe();
+  });
+});
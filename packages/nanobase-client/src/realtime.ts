@@ -0,0 +1,162 @@
+import type { DataRecord } from './types';
+
+// ==========================================
+// リアルタイム購読（SSE → ポーリングへのフォールバック）
+// ==========================================
+export type ChangeEvent<T> =
+  | { type: 'insert' | 'update'; record: DataRecord<T> }
+  | { type: 'delete'; id: string };
+
+export type Unsubscribe = () => void;
+
+export interface SubscribeOptions {
+  // auto: SSEを試して使えなければポーリング
+  transport?: 'auto' | 'sse' | 'polling';
+  pollInterval?: number;
+  // この時刻（サーバーの時計）より後の変更から届ける。list の meta.serverTime を渡すと、取得から購読までの変更も取りこぼさない
+  since?: string;
+}
+
+export const DEFAULT_POLL_INTERVAL = 3000;
+// 接続後に切れたSSEを張り直すまでの待ち時間
+const RECONNECT_DELAY = 3000;
+// トークンの期限のこの時間前に、新しいトークンでSSEを張り直す
+const TOKEN_RENEW_MARGIN = 60 * 1000;
+
+// SSEで届くイベント、またはポーリングで取得したレコードをChangeEventに変換する前の形
+export type RawChangeEvent =
+  | { type: 'insert' | 'update'; record: DataRecord }
+  | { type: 'delete'; id: string };
+
+// SSEの接続先。トークンの期限（ミリ秒）が分かれば、その前に張り直す
+export interface StreamConnection {
+  url: string;
+  expiresAt: number | null;
+}
+
+// ポーリング1回分の結果。serverTime は次の差分取得の起点になる
+export interface ChangesPage {
+  records: DataRecord[];
+  serverTime?: string;
+}
+
+// SSEで変更を受け取る。URLに載せたトークンが古くならないよう、切断時と期限前に connect から作り直して張り直す
+// 接続できなかったとき（SSE非対応や認証切れ）は閉じて、最後に受け取った時刻を onUnavailable に渡す
+export function openChangeStream(
+  connect: (since?: string) => Promise<StreamConnection | null>,
+  emit: (event: RawChangeEvent) => void,
+  onUnavailable: (since?: string) => void,
+  since?: string
+): Unsubscribe {
+  let source: EventSource | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+  // サーバーはイベントの id に変更時刻を入れて送る。張り直すときはそこから再送してもらう
+  let lastEventId = since;
+
+  const close = () => {
+    clearTimeout(timer);
+    source?.close();
+    source = null;
+  };
+
+  const giveUp = () => {
+    stopped = true;
+    onUnavailable(lastEventId);
+  };
+
+  const open = async () => {
+    const connection = await connect(lastEventId);
+    if (stopped) return;
+    if (!connection) {
+      giveUp();
+      return;
+    }
+
+    const current = new EventSource(connection.url);
+    let opened = false;
+    source = current;
+    current.onopen = () => {
+      opened = true;
+      if (connection.expiresAt === null) return;
+      // トークンを更新できず期限の近いままなら、張り直しても同じトークンになるので、すぐには張り直さない
+      // （サーバーに切られたら onerror で張り直し、それでも開けなければポーリングに切り替わる）
+      const delay = connection.expiresAt - TOKEN_RENEW_MARGIN - Date.now();
+      if (delay <= 0) return;
+      timer = setTimeout(() => {
+        close();
+        open();
+      }, delay);
+    };
+    current.onmessage = message => {
+      if (message.lastEventId) lastEventId = message.lastEventId;
+      try {
+        emit(JSON.parse(message.data) as RawChangeEvent);
+      } catch (err) {
+        console.error('[nanobase] 変更イベントを解釈できませんでした', err);
+      }
+    };
+    // EventSourceの自動再接続は同じURL（古いトークン）を使うので、閉じて自分で張り直す
+    // 張り直しても開けなければ（401など）諦める
+    current.onerror = () => {
+      close();
+      if (!opened) {
+        giveUp();
+        return;
+      }
+      timer = setTimeout(open, RECONNECT_DELAY);
+    };
+  };
+  open();
+
+  return () => {
+    stopped = true;
+    close();
+  };
+}
+
+// updatedAfter カーソルで差分だけを取得し続ける
+// since がなければ、最初にサーバーの現在時刻だけを取得してそこから始める（端末の時計のずれで取りこぼさない）
+export function pollChanges(
+  fetchSince: (since?: string) => Promise<ChangesPage | undefined>,
+  emit: (event: RawChangeEvent) => void,
+  interval = DEFAULT_POLL_INTERVAL,
+  since?: string
+): Unsubscribe {
+  let cursor = since;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const tick = async () => {
+    try {
+      const page = await fetchSince(cursor);
+      if (page && cursor === undefined) {
+        // 購読開始以降の変更だけを届ける（それ以前は呼び出し側が list で取得済みの想定）
+        cursor = page.serverTime || new Date().toISOString();
+      } else if (page && cursor !== undefined) {
+        const from = cursor;
+        for (const record of page.records) {
+          if (record.deleted) {
+            emit({ type: 'delete', id: record.id });
+          } else {
+            const isNew = !record.createdAt || record.createdAt > from;
+            emit({ type: isNew ? 'insert' : 'update', record });
+          }
+        }
+        // サーバーの時刻を返さない古いサーバーでは、受け取ったレコードの更新時刻まで進める
+        cursor = page.serverTime || page.records.reduce((max, r) => (r.updatedAt && r.updatedAt > max ? r.updatedAt : max), from);
+      }
+    } catch (err) {
+      console.error('[nanobase] 変更の取得に失敗しました', err);
+    } finally {
+      if (!stopped) timer = setTimeout(tick, interval);
+    }
+  };
+  // 起点の時刻はすぐに取りに行く
+  timer = setTimeout(tick, cursor === undefined ? 0 : interval);
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createData } from './data';
+import type { ApiFetch } from './http';
+import { defineCollection, s } from './schema';
+import type { Session } from './session';
+import type { DataRecord } from './types';
+
+const todoSchema = s.object({
+  title: s.string(),
+  done: s.boolean(),
+  priority: s.literal('low', 'high'),
+  tags: s.optional(s.array(s.string())),
+});
+
+describe('s.object', () => {
+  it('スキーマに合う値を返す', () => {
+    expect(todoSchema.parse({ title: '買い物', done: false, priority: 'low', tags: ['家'] })).toEqual({
+      ok: true,
+      value: { title: '買い物', done: false, priority: 'low', tags: ['家'] },
+    });
+  });
+
+  it('合わない項目をパス付きで報告する', () => {
+    expect(todoSchema.parse({ title: 1, done: false, priority: 'mid', tags: ['家', 2] })).toEqual({
+      ok: false,
+      issues: [
+        'titleはstringである必要があります',
+        'priorityは low | high のいずれかである必要があります',
+        'tags[1]はstringである必要があります',
+      ],
+    });
+  });
+
+  it('省略可能な項目の null は取り除く', () => {
+    expect(todoSchema.parse({ title: 'a', done: true, priority: 'high', tags: null })).toEqual({
+      ok: true,
+      value: { title: 'a', done: true, priority: 'high' },
+    });
+  });
+
+  it('未知のフィールドは残す', () => {
+    const result = todoSchema.parse({ title: 'a', done: true, priority: 'high', note: 'メモ' });
+    expect(result.ok && result.value).toEqual({ title: 'a', done: true, priority: 'high', note: 'メモ' });
+  });
+
+  it('NaN は数値として受け付けない', () => {
+    expect(s.number().parse(Number.NaN).ok).toBe(false);
+  });
+
+  it('オブジェクト以外は受け付けない', () => {
+    expect(todoSchema.parse(['a'])).toEqual({ ok: false, issues: ['値はオブジェクトである必要があります'] });
+  });
+});
+
+// done がなく、completed を持っていた頃のレコードを変換する
+const todosCollection = defineCollection('todos', todoSchema, {
+  migrate: old => ('completed' in old ? { ...old, done: old.completed === true, priority: 'low' } : null),
+});
+
+const record = (id: string, data: Record<string, unknown>): DataRecord => ({ id, data });
+
+function setup(records: DataRecord[]) {
+  const requests: { url: string; init?: RequestInit }[] = [];
+  const apiFetch = vi.fn(async (url: string, init?: RequestInit) => {
+    requests.push({ url, init });
+    return init?.method === 'PATCH' ? { success: true } : { success: true, data: records };
+  }) as unknown as ApiFetch;
+  const onInvalidRecord = vi.fn();
+  const data = createData(apiFetch, 'http://pocketdata', { projectId: 'test', session: {} as Session, onInvalidRecord });
+  return { data, requests, onInvalidRecord };
+}
+
+describe('migrate', () => {
+  const records = [
+    record('new', { title: '新しい', done: true, priority: 'high' }),
+    record('old', { title: '古い', completed: true }),
+    record('broken', { title: '壊れた' }),
+  ];
+
+  it('list は古い形式を変換し、変換できないレコードを報告して除く', async () => {
+    const { data, onInvalidRecord } = setup(records);
+    const result = await data.list(todosCollection);
+    expect(result.data?.map(r => [r.id, r.data.done, r.data.priority])).toEqual([
+      ['new', true, 'high'],
+      ['old', true, 'low'],
+    ]);
+    expect(onInvalidRecord).toHaveBeenCalledTimes(1);
+    expect(onInvalidRecord.mock.calls[0][0]).toBe('todos');
+    expect(onInvalidRecord.mock.calls[0][1]).toBe(records[2]);
+  });
+
+  it('data.migrate は変換が必要なレコードだけを保存し直す', async () => {
+    const { data, requests } = setup(records);
+    const result = await data.migrate(todosCollection);
+    expect(result).toEqual({ success: true, data: 1 });
+    const patches = requests.filter(r => r.init?.method === 'PATCH');
+    expect(patches.map(r => r.url)).toEqual(['http://pocketdata/api/v1/data/todos/old']);
+    expect(JSON.parse(patches[0].init?.body as string)).toEqual({ title: '古い', completed: true, done: true, priority: 'low' });
+  });
+
+  it('migrate がないコレクションは何もしない', async () => {
+    const { data, requests } = setup(records);
+    const result = await data.migrate(defineCollection('todos', todoSchema));
+    expect(result).toEqual({ success: true, data: 0 });
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,135 @@
+import type { DataRecord } from './types';
+
+// ==========================================
+// コレクションのスキーマ定義（型とランタイム検証を1か所で宣言）
+// ==========================================
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; issues: string[] };
+
+export interface Schema<T> {
+  parse(value: unknown, path?: string): ParseResult<T>;
+}
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never }[keyof S];
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+type InferShape<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+const label = (path: string) => path || '値';
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): Schema<T> {
+  return {
+    parse(value, path = '') {
+      if (typeof value !== type || (type === 'number' && Number.isNaN(value))) {
+        return { ok: false, issues: [`${label(path)}は${type}である必要があります`] };
+      }
+      return { ok: true, value: value as T };
+    },
+  };
+}
+
+export const s = {
+  string: () => primitive<string>('string'),
+  number: () => primitive<number>('number'),
+  boolean: () => primitive<boolean>('boolean'),
+
+  literal<T extends string>(...values: T[]): Schema<T> {
+    return {
+      parse(value, path = '') {
+        if (typeof value !== 'string' || !values.includes(value as T)) {
+          return { ok: false, issues: [`${label(path)}は ${values.join(' | ')} のいずれかである必要があります`] };
+        }
+        return { ok: true, value: value as T };
+      },
+    };
+  },
+
+  optional<T>(inner: Schema<T>): OptionalSchema<T> {
+    return {
+      optional: true,
+      parse(value, path) {
+        if (value === undefined || value === null) return { ok: true, value: undefined };
+        return inner.parse(value, path);
+      },
+    };
+  },
+
+  array<T>(item: Schema<T>): Schema<T[]> {
+    return {
+      parse(value, path = '') {
+        if (!Array.isArray(value)) return { ok: false, issues: [`${label(path)}は配列である必要があります`] };
+        const items: T[] = [];
+        const issues: string[] = [];
+        value.forEach((v, i) => {
+          const result = item.parse(v, `${path}[${i}]`);
+          if (result.ok) items.push(result.value);
+          else issues.push(...result.issues);
+        });
+        return issues.length > 0 ? { ok: false, issues } : { ok: true, value: items };
+      },
+    };
+  },
+
+  object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+    return {
+      parse(value, path = '') {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          return { ok: false, issues: [`${label(path)}はオブジェクトである必要があります`] };
+        }
+        const input = value as Record<string, unknown>;
+        // 未知のフィールドはそのまま残す（古いクライアントが書いたデータを壊さない）
+        const output: Record<string, unknown> = { ...input };
+        const issues: string[] = [];
+        for (const key of Object.keys(shape)) {
+          const result = shape[key].parse(input[key], path ? `${path}.${key}` : key);
+          if (result.ok) {
+            // 省略可能な項目の null は、値なしとして扱う
+            if (result.value !== undefined) output[key] = result.value;
+            else delete output[key];
+          } else {
+            issues.push(...result.issues);
+          }
+        }
+        return issues.length > 0 ? { ok: false, issues } : { ok: true, value: output as InferShape<S> };
+      },
+    };
+  },
+};
+
+// ==========================================
+// コレクション
+// ==========================================
+// 誰が読み書きできるかはサーバー側の設定（nanobase.rules.json）で決まり、クライアントからは指定できない
+
+// shared のルールのレコードに持たせる共有メンバー（members の変更とレコードの削除は作成者だけができる）
+export const memberSchema = s.object({
+  userId: s.string(),
+  email: s.string(),
+  role: s.literal('viewer', 'editor'),
+});
+
+export type Member = Infer<typeof memberSchema>;
+
+export interface CollectionOptions {
+  // 古い形式のデータを現在のスキーマに合う形に変換する。変換できなければ null
+  migrate?: (data: Record<string, unknown>) => Record<string, unknown> | null;
+}
+
+export interface Collection<T> {
+  name: string;
+  schema: Schema<T>;
+  migrate?: CollectionOptions['migrate'];
+}
+
+export type CollectionRecord<C> = C extends Collection<infer T> ? DataRecord<T> : never;
+
+export function defineCollection<T>(name: string, schema: Schema<T>, options: CollectionOptions = {}): Collection<T> {
+  return { name, schema, migrate: options.migrate };
+}
@@ -0,0 +1,132 @@
+import type { ApiResult, AuthSession } from './types';
+
+export const TOKEN_KEY = 'nanobase_token';
+export const REFRESH_TOKEN_KEY = 'nanobase_refresh_token';
+
+// 期限のこの時間前になったら先回りして更新する
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+function decodeTokenPayload(token: string): Record<string, unknown> | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')));
+  } catch {
+    return null;
+  }
+}
+
+// JWTのexp（ミリ秒）を読む。JWTでなければnull
+export function decodeTokenExpiry(token: string): number | null {
+  const exp = decodeTokenPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+// JWTのsub（ユーザーID）を読む。JWTでなければnull
+export function decodeTokenSubject(token: string): string | null {
+  const sub = decodeTokenPayload(token)?.sub;
+  return typeof sub === 'string' && sub ? sub : null;
+}
+
+function isExpired(token: string, marginMs = 0) {
+  const expiresAt = decodeTokenExpiry(token);
+  return expiresAt !== null && expiresAt - marginMs <= Date.now();
+}
+
+// トークンの保存・期限チェック・更新をまとめて扱う
+export function createSession(projectId: string, easyauthUrl: string) {
+  const expiredListeners = new Set<() => void>();
+  let refreshing: Promise<boolean> | null = null;
+
+  const getToken = () => localStorage.getItem(TOKEN_KEY);
+
+  // ログイン中のユーザーのID（トークンから読めなければnull）
+  const getUserId = () => {
+    const token = getToken();
+    return token ? decodeTokenSubject(token) : null;
+  };
+
+  const setTokens = (token: string, refreshToken?: string) => {
+    localStorage.setItem(TOKEN_KEY, token);
+    if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  };
+
+  const clear = () => {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  };
+
+  const requestRefresh = async (): Promise<boolean> => {
+    const token = getToken();
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!token && !refreshToken) return false;
+
+    // apiFetchを通すと401処理が再帰するので、ここだけ素のfetchを使う
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', 'X-Project-Id': projectId };
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    try {
+      const response = await fetch(`${easyauthUrl}/api/v1/auth/refresh`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ refreshToken }),
+      });
+      if (!response.ok) return false;
+      const result: ApiResult<AuthSession> = await response.json();
+      if (!result.success || !result.data) return false;
+      setTokens(result.data.token, result.data.refreshToken);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  // 同時に複数のリクエストが更新を要求しても、EasyAuthへの問い合わせは1回にまとめる
+  const refresh = () => {
+    if (!refreshing) {
+      refreshing = requestRefresh().finally(() => {
+        refreshing = null;
+      });
+    }
+    return refreshing;
+  };
+
+  const expire = () => {
+    clear();
+    expiredListeners.forEach(listener => listener());
+  };
+
+  return {
+    getToken,
+    getUserId,
+    setTokens,
+    clear,
+    refresh,
+    expire,
+
+    // 期限が近ければ更新してから返す。期限切れで更新もできなければセッション切れを通知する
+    async getValidToken() {
+      const token = getToken();
+      if (!token || !isExpired(token, REFRESH_MARGIN_MS)) return token;
+      if (await refresh()) return getToken();
+      if (!isExpired(token)) return token;
+      expire();
+      return null;
+    },
+
+    isActive() {
+      const token = getToken();
+      if (!token) return false;
+      return !isExpired(token) || !!localStorage.getItem(REFRESH_TOKEN_KEY);
+    },
+
+    onExpired(listener: () => void) {
+      expiredListeners.add(listener);
+      return () => {
+        expiredListeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type Session = ReturnType<typeof createSession>;
@@ -0,0 +1,62 @@
+// ==========================================
+// IndexedDB のキー・バリューストア（使えない環境ではメモリに保存）
+// ==========================================
+const STORE_NAME = 'kv';
+
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+}
+
+export function createMemoryStore(): KeyValueStore {
+  const values = new Map<string, unknown>();
+  return {
+    async get<T>(key: string) {
+      return values.get(key) as T | undefined;
+    },
+    async set(key, value) {
+      values.set(key, value);
+    },
+  };
+}
+
+function openDatabase(name: string) {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function openKeyValueStore(name: string): KeyValueStore {
+  const memory = createMemoryStore();
+  if (typeof indexedDB === 'undefined') return memory;
+
+  // プライベートブラウズなどで開けなかったらメモリに切り替える
+  const database = openDatabase(name).catch(err => {
+    console.warn('[nanobase] IndexedDBを開けないため、メモリに保存します', err);
+    return null;
+  });
+
+  const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest) => {
+    const db = await database;
+    if (!db) return null;
+    return new Promise<{ value: T }>((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve({ value: request.result as T });
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    async get<T>(key: string) {
+      const result = await run<T>('readonly', store => store.get(key));
+      return result ? result.value : memory.get<T>(key);
+    },
+    async set(key, value) {
+      const result = await run('readwrite', store => store.put(value, key));
+      if (!result) await memory.set(key, value);
+    },
+  };
+}
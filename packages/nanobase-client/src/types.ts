@@ -0,0 +1,63 @@
+import type { ApiError } from './errors';
+import type { OfflineOptions } from './offline';
+
+// APIレスポンスの共通形式
+export interface ApiResult<T> {
+  success: boolean;
+  data?: T;
+  error?: ApiError;
+  // 一覧取得時のページ情報（次のページがなければ nextCursor は null）
+  meta?: {
+    nextCursor?: string | null;
+    // サーバーがレスポンスを作った時刻。subscribe の since に渡すと、その後の変更から受け取れる
+    serverTime?: string;
+    // オフライン時にローカルのキャッシュから返した / 送信をキューに積んだ
+    fromCache?: boolean;
+    queued?: boolean;
+  };
+}
+
+export interface User {
+  id: string;
+  email: string;
+}
+
+export interface AuthSession {
+  token: string;
+  refreshToken?: string;
+  user: User;
+}
+
+// PocketDataのレコード
+export interface DataRecord<T = Record<string, unknown>> {
+  id: string;
+  data: T;
+  // サーバーが付与するメタデータ（userId は作成したユーザーで、クライアントからは変更できない）
+  userId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  version?: number;
+  deleted?: boolean;
+}
+
+// スキーマに合わないレコードを受け取ったときの通知先
+export type InvalidRecordHandler = (collection: string, record: unknown, issues: string[]) => void;
+
+export interface ServiceUrls {
+  easyauth: string;
+  pocketdata: string;
+  notico: string;
+  monitor: string;
+}
+
+export interface ClientConfig {
+  projectId: string;
+  // 未指定のサービスはローカルのデフォルトポートを使う
+  urls?: Partial<Record<keyof ServiceUrls, string | undefined>>;
+  onInvalidRecord?: InvalidRecordHandler;
+  // リクエストのタイムアウト（ミリ秒）と、冪等なリクエストの再試行回数
+  timeout?: number;
+  retries?: number;
+  // true にすると一覧をIndexedDBにキャッシュし、オフライン中の変更をキューに積んで再接続時に送る
+  offline?: boolean | OfflineOptions;
+}
@@ -0,0 +1,33 @@
+// ==========================================
+// ゲームセッションのプロトコル（ブラウザとサーバーの両方で使う）
+// ==========================================
+export const GAME_DURATION_MS = 10 * 1000;
+
+// 人間が連打できる上限（1秒あたりのクリック数）
+export const MAX_CLICKS_PER_SECOND = 20;
+
+// 通信の遅延や時計のずれとして許容する幅
+export const GRACE_MS = 3000;
+
+// クライアントがクリックをまとめて送る間隔
+export const BATCH_INTERVAL_MS = 1000;
+
+// クリックしてからサーバーに届くまでに許す時間（まとめて後から送るのを防ぐ）
+export const MAX_BATCH_DELAY_MS = BATCH_INTERVAL_MS + GRACE_MS;
+
+export interface StartSessionResponse {
+  sessionId: string;
+  durationMs: number;
+}
+
+// クリックはセッション開始からの経過ミリ秒で送る
+export interface ClickBatch {
+  seq: number;
+  clicks: number[];
+}
+
+export interface FinishSessionResponse {
+  score: number;
+  verified: boolean;
+  reason?: string;
+}
@@ -0,0 +1,147 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { GAME_DURATION_MS, type ClickBatch, type FinishSessionResponse, type StartSessionResponse } from './protocol.js';
+import { addClicks, finishSession, getSession, startSession } from './sessions.js';
+
+// 設定（環境変数で上書き可能）
+const CONFIG = {
+  port: Number(process.env.PORT || 3209),
+  easyauthUrl: process.env.EASYAUTH_URL || 'http://localhost:3201',
+  pocketdataUrl: process.env.POCKETDATA_URL || 'http://localhost:3202',
+  projectId: process.env.PROJECT_ID || 'game-app',
+  // leaderboard への書き込み権限を持つサービス用トークン
+  serviceToken: process.env.POCKETDATA_SERVICE_TOKEN || '',
+  allowedOrigin: process.env.ALLOWED_ORIGIN || 'http://localhost:3208',
+};
+
+// リクエストボディの上限（クリックのバッチには十分な大きさ）
+const MAX_BODY_BYTES = 16 * 1024;
+
+interface ApiBody<T> {
+  success: boolean;
+  data?: T;
+  error?: { message: string };
+}
+
+function send<T>(res: ServerResponse, status: number, body: ApiBody<T>) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const fail = (res: ServerResponse, status: number, message: string) => send(res, status, { success: false, error: { message } });
+
+type BodyResult<T> = { ok: true; value: T } | { ok: false; status: number; reason: string };
+
+// 壊れたJSONやオブジェクト以外のボディは、500ではなく4xxで返せるように結果として返す
+async function readJson<T extends object>(req: IncomingMessage): Promise<BodyResult<T>> {
+  if (Number(req.headers['content-length'] || 0) > MAX_BODY_BYTES) return { ok: false, status: 413, reason: 'リクエストが大きすぎます' };
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) return { ok: false, status: 413, reason: 'リクエストが大きすぎます' };
+    chunks.push(chunk as Buffer);
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    return { ok: false, status: 400, reason: 'JSONの形式が正しくありません' };
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, status: 400, reason: 'リクエストの形式が正しくありません' };
+  }
+  return { ok: true, value: value as T };
+}
+
+// トークンをEasyAuthに問い合わせてプレイヤーを特定する
+async function authenticate(req: IncomingMessage) {
+  const authorization = req.headers.authorization;
+  if (!authorization) return null;
+  const response = await fetch(`${CONFIG.easyauthUrl}/api/v1/auth/me`, {
+    headers: { Authorization: authorization, 'X-Project-Id': CONFIG.projectId },
+  });
+  if (!response.ok) return null;
+  const body = (await response.json()) as ApiBody<{ id: string; email: string }>;
+  return body.success && body.data ? body.data : null;
+}
+
+// 検証済みのスコアだけをサーバーから leaderboard に書き込む
+async function recordScore(playerId: string, playerName: string, score: number, sessionId: string) {
+  const response = await fetch(`${CONFIG.pocketdataUrl}/api/v1/data/leaderboard`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Project-Id': CONFIG.projectId,
+      Authorization: `Bearer ${CONFIG.serviceToken}`,
+    },
+    body: JSON.stringify({ playerId, playerName, score, sessionId, verified: true, createdAt: new Date().toISOString() }),
+  });
+  return response.ok;
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url || '/', `http://${req.headers.host}`);
+  const match = url.pathname.match(/^\/api\/v1\/game\/sessions(?:\/([^/]+)(?:\/(clicks|finish))?)?$/);
+  if (!match || req.method !== 'POST') return fail(res, 404, '見つかりません');
+
+  const player = await authenticate(req);
+  if (!player) return fail(res, 401, 'ログインが必要です');
+
+  const [, sessionId, action] = match;
+
+  // POST /api/v1/game/sessions
+  if (!sessionId) {
+    const session = startSession(player.id, player.email.split('@')[0]);
+    return send<StartSessionResponse>(res, 201, {
+      success: true,
+      data: { sessionId: session.id, durationMs: GAME_DURATION_MS },
+    });
+  }
+
+  const session = getSession(sessionId);
+  if (!session || session.playerId !== player.id) return fail(res, 404, 'セッションが見つかりません');
+
+  // POST /api/v1/game/sessions/:id/clicks
+  if (action === 'clicks') {
+    const body = await readJson<ClickBatch>(req);
+    if (!body.ok) return fail(res, body.status, body.reason);
+    const result = addClicks(session, body.value);
+    return result.ok ? send(res, 200, { success: true }) : fail(res, 422, result.reason);
+  }
+
+  // POST /api/v1/game/sessions/:id/finish
+  if (action === 'finish') {
+    const result = finishSession(session);
+    const score = session.clicks.length;
+    if (!result.ok) {
+      return send<FinishSessionResponse>(res, 200, { success: true, data: { score, verified: false, reason: result.reason } });
+    }
+    if (!(await recordScore(session.playerId, session.playerName, score, session.id))) {
+      return fail(res, 502, 'スコアの保存に失敗しました');
+    }
+    return send<FinishSessionResponse>(res, 200, { success: true, data: { score, verified: true } });
+  }
+
+  return fail(res, 404, '見つかりません');
+}
+
+const server = createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', CONFIG.allowedOrigin);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Project-Id');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  handle(req, res).catch(err => {
+    console.error('[game-verifier]', err);
+    fail(res, 500, 'サーバーエラーが発生しました');
+  });
+});
+
+server.listen(CONFIG.port, () => {
+  console.log(`[game-verifier] http://localhost:${CONFIG.port}`);
+  if (!CONFIG.serviceToken) console.warn('[game-verifier] POCKETDATA_SERVICE_TOKEN が未設定のため、スコアを保存できません');
+});
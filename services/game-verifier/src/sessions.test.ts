@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { GAME_DURATION_MS, GRACE_MS, MAX_BATCH_DELAY_MS } from './protocol.js';
+import { addClicks, finishSession, startSession } from './sessions.js';
+
+const START = 1_000_000;
+
+// START から elapsed ミリ秒後にバッチを送る
+const send = (session: ReturnType<typeof startSession>, seq: number, clicks: number[], elapsed: number) =>
+  addClicks(session, { seq, clicks }, START + elapsed);
+
+describe('addClicks', () => {
+  it('順番どおりに届いたクリックを記録する', () => {
+    const session = startSession('player', 'Player', START);
+    expect(send(session, 0, [100, 300, 900], 1000)).toEqual({ ok: true });
+    expect(send(session, 1, [1200, 1800], 2000)).toEqual({ ok: true });
+    expect(session.clicks).toEqual([100, 300, 900, 1200, 1800]);
+    expect(session.nextSeq).toBe(2);
+  });
+
+  it('順序番号が飛んだバッチは拒否する', () => {
+    const session = startSession('player', 'Player', START);
+    expect(send(session, 1, [100], 1000)).toEqual({ ok: false, reason: 'クリックの順序が正しくありません' });
+    expect(session.status).toBe('rejected');
+  });
+
+  it('整数でないクリックは拒否する', () => {
+    const session = startSession('player', 'Player', START);
+    expect(send(session, 0, [100.5], 1000).ok).toBe(false);
+  });
+
+  it('前のバッチより前の時刻は拒否する', () => {
+    const session = startSession('player', 'Player', START);
+    send(session, 0, [500], 1000);
+    expect(send(session, 1, [400], 2000)).toEqual({ ok: false, reason: 'クリックの時刻が前後しています' });
+  });
+
+  it('サーバーの経過時間より先の時刻は拒否する', () => {
+    const session = startSession('player', 'Player', START);
+    expect(send(session, 0, [1000 + GRACE_MS + 1], 1000)).toEqual({ ok: false, reason: 'クリックの時刻が不正です' });
+  });
+
+  it('後からまとめて送られたクリックは拒否する', () => {
+    const session = startSession('player', 'Player', START);
+    expect(send(session, 0, [100], 100 + MAX_BATCH_DELAY_MS + 1)).toEqual({ ok: false, reason: 'クリックの報告が遅すぎます' });
+  });
+
+  it('制限時間を過ぎたクリックは拒否する', () => {
+    const session = startSession('player', 'Player', START);
+    expect(send(session, 0, [GAME_DURATION_MS + 1], GAME_DURATION_MS)).toEqual({ ok: false, reason: '制限時間外のクリックがあります' });
+  });
+
+  it('1秒間に上限を超えるクリックは拒否する', () => {
+    const session = startSession('player', 'Player', START);
+    const clicks = Array.from({ length: 21 }, (_, i) => i * 40);
+    expect(send(session, 0, clicks, 1000)).toEqual({ ok: false, reason: 'クリックの速度が人間の限界を超えています' });
+  });
+
+  it('拒否したセッションにはそれ以上送れない', () => {
+    const session = startSession('player', 'Player', START);
+    send(session, 1, [100], 1000);
+    expect(send(session, 0, [100], 1000)).toEqual({ ok: false, reason: 'クリックの順序が正しくありません' });
+  });
+});
+
+describe('finishSession', () => {
+  it('制限時間のあとに終了できる', () => {
+    const session = startSession('player', 'Player', START);
+    expect(finishSession(session, START + GAME_DURATION_MS)).toEqual({ ok: true });
+    expect(session.status).toBe('finished');
+  });
+
+  it('制限時間より前の終了は拒否する', () => {
+    const session = startSession('player', 'Player', START);
+    expect(finishSession(session, START + GAME_DURATION_MS - GRACE_MS - 1).ok).toBe(false);
+  });
+
+  it('遅すぎる終了は拒否する', () => {
+    const session = startSession('player', 'Player', START);
+    expect(finishSession(session, START + GAME_DURATION_MS + GRACE_MS + 1).ok).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { randomUUID } from 'node:crypto';
+import { GAME_DURATION_MS, GRACE_MS, MAX_BATCH_DELAY_MS, MAX_CLICKS_PER_SECOND, type ClickBatch } from './protocol.js';
+
+// ==========================================
+// セッションの保持とクリックの検証
+// ==========================================
+export interface GameSession {
+  id: string;
+  playerId: string;
+  playerName: string;
+  startedAt: number;
+  nextSeq: number;
+  clicks: number[];
+  status: 'active' | 'rejected' | 'finished';
+  reason?: string;
+}
+
+export type VerifyResult = { ok: true } | { ok: false; reason: string };
+
+// 終了しなかったセッションを残しておく時間
+const SESSION_TTL_MS = 5 * 60 * 1000;
+
+const sessions = new Map<string, GameSession>();
+
+export function startSession(playerId: string, playerName: string, now = Date.now()): GameSession {
+  sweep(now);
+  const session: GameSession = {
+    id: randomUUID(),
+    playerId,
+    playerName,
+    startedAt: now,
+    nextSeq: 0,
+    clicks: [],
+    status: 'active',
+  };
+  sessions.set(session.id, session);
+  return session;
+}
+
+export function getSession(id: string) {
+  return sessions.get(id);
+}
+
+function reject(session: GameSession, reason: string): VerifyResult {
+  session.status = 'rejected';
+  session.reason = reason;
+  return { ok: false, reason };
+}
+
+// 任意の1秒間に MAX_CLICKS_PER_SECOND を超えるクリックがないか
+function exceedsClickRate(clicks: number[]) {
+  for (let i = MAX_CLICKS_PER_SECOND; i < clicks.length; i++) {
+    if (clicks[i] - clicks[i - MAX_CLICKS_PER_SECOND] < 1000) return true;
+  }
+  return false;
+}
+
+// クライアントの申告は信用せず、サーバーで測った経過時間と突き合わせて検証する
+export function addClicks(session: GameSession, batch: ClickBatch, now = Date.now()): VerifyResult {
+  if (session.status !== 'active') return { ok: false, reason: session.reason || 'セッションは終了しています' };
+
+  const elapsed = now - session.startedAt;
+  if (elapsed > GAME_DURATION_MS + GRACE_MS) return reject(session, '制限時間を過ぎたクリックです');
+  if (batch.seq !== session.nextSeq) return reject(session, 'クリックの順序が正しくありません');
+  if (!Array.isArray(batch.clicks) || !batch.clicks.every(c => Number.isInteger(c))) return reject(session, 'クリックの形式が正しくありません');
+
+  const last = session.clicks[session.clicks.length - 1] ?? 0;
+  for (const [i, click] of batch.clicks.entries()) {
+    const previous = i === 0 ? last : batch.clicks[i - 1];
+    if (click < previous) return reject(session, 'クリックの時刻が前後しています');
+    if (click < 0 || click > GAME_DURATION_MS) return reject(session, '制限時間外のクリックがあります');
+    // サーバーの経過時間より先の時刻は申告できない
+    if (click > elapsed + GRACE_MS) return reject(session, 'クリックの時刻が不正です');
+    // 後からまとめて送られたクリックは受け付けない
+    if (click < elapsed - MAX_BATCH_DELAY_MS) return reject(session, 'クリックの報告が遅すぎます');
+  }
+
+  const clicks = [...session.clicks, ...batch.clicks];
+  if (exceedsClickRate(clicks)) return reject(session, 'クリックの速度が人間の限界を超えています');
+
+  session.clicks = clicks;
+  session.nextSeq += 1;
+  return { ok: true };
+}
+
+export function finishSession(session: GameSession, now = Date.now()): VerifyResult {
+  if (session.status !== 'active') return { ok: false, reason: session.reason || 'セッションは終了しています' };
+
+  const elapsed = now - session.startedAt;
+  if (elapsed < GAME_DURATION_MS - GRACE_MS) return reject(session, '制限時間より前に終了しています');
+  if (elapsed > GAME_DURATION_MS + GRACE_MS) return reject(session, '終了の報告が遅すぎます');
+
+  session.status = 'finished';
+  return { ok: true };
+}
+
+function sweep(now: number) {
+  for (const [id, session] of sessions) {
+    if (now - session.startedAt > SESSION_TTL_MS) sessions.delete(id);
+  }
+}